@@ -1,6 +1,7 @@
 import { Encoding } from "@iov/encoding";
 
 import { pubkeyToAddress } from "./address";
+import { decodeBech32Pubkey } from "./pubkey";
 
 const { toBase64, fromHex } = Encoding;
 
@@ -23,5 +24,13 @@ describe("address", () => {
       };
       expect(pubkeyToAddress(pubkey, prefix)).toEqual("cosmos1pfq05em6sfkls66ut4m2257p7qwlk448h8mysz");
     });
+
+    it("works for multisig", () => {
+      // wasmd keys add testgroup1 --multisig=test1,test2,test3 --multisig-threshold 2
+      const pubkey = decodeBech32Pubkey(
+        "wasmpub1ytql0csgqgfzd666axrjzquvkkvwu4qnp5603cyp3emc02sxzwdqutgqym9dke3t2h83dpv6vufzd666axrjzq5sdudaj5tv3nfm2f3exgkgqxlcwfxplf0g0rqwx2um6mqthzc0dqfzd666axrjzq7vjdge6cdksmdx7r5vl72rrc6kk30ezp376mup77wamzvgtzqq7v7aysdd",
+      );
+      expect(pubkeyToAddress(pubkey, "wasm")).toEqual("wasm1pzf2wlat97n7rykrk7e8g8nxste6hde0r8jqsy");
+    });
   });
 });
@@ -1,22 +1,33 @@
 import { Ripemd160, Sha256 } from "@iov/crypto";
 import { Bech32, Encoding } from "@iov/encoding";
 
-import { PubKey, pubkeyType } from "./types";
+import { encodeAminoPubkey } from "./pubkey";
+import { isMultisigThresholdPubKey, MultisigThresholdPubKey, PubKey, pubkeyType } from "./types";
 
 const { fromBase64 } = Encoding;
 
-export function rawSecp256k1PubkeyToAddress(pubkeyRaw: Uint8Array, prefix: string): string {
+/** Returns the 20 byte address of a compressed secp256k1 pubkey */
+export function rawSecp256k1PubkeyToRawAddress(pubkeyRaw: Uint8Array): Uint8Array {
   if (pubkeyRaw.length !== 33) {
     throw new Error(`Invalid Secp256k1 pubkey length (compressed): ${pubkeyRaw.length}`);
   }
   const hash1 = new Sha256(pubkeyRaw).digest();
-  const hash2 = new Ripemd160(hash1).digest();
-  return Bech32.encode(prefix, hash2);
+  return new Ripemd160(hash1).digest();
+}
+
+export function rawSecp256k1PubkeyToAddress(pubkeyRaw: Uint8Array, prefix: string): string {
+  return Bech32.encode(prefix, rawSecp256k1PubkeyToRawAddress(pubkeyRaw));
 }
 
 // See https://github.com/tendermint/tendermint/blob/f2ada0a604b4c0763bda2f64fac53d506d3beca7/docs/spec/blockchain/encoding.md#public-key-cryptography
 // This assumes we already have a cosmos-compressed pubkey
-export function pubkeyToAddress(pubkey: PubKey, prefix: string): string {
+export function pubkeyToAddress(pubkey: PubKey | MultisigThresholdPubKey, prefix: string): string {
+  if (isMultisigThresholdPubKey(pubkey)) {
+    // the first 20 bytes of the sha256 hash of the Amino encoding
+    const hash = new Sha256(encodeAminoPubkey(pubkey)).digest();
+    return Bech32.encode(prefix, hash.slice(0, 20));
+  }
+
   const pubkeyBytes = fromBase64(pubkey.value);
   switch (pubkey.type) {
     case pubkeyType.secp256k1: {
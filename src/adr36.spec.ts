@@ -0,0 +1,109 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import { Encoding } from "@iov/encoding";
+
+import { makeArbitrarySignDoc, signArbitrary, verifyArbitrary } from "./adr36";
+import { rawSecp256k1PubkeyToAddress } from "./address";
+import { serializeSignDoc } from "./encoding";
+import { makeSecretNetworkPath, Secp256k1Pen } from "./pen";
+import { Secp256k1Wallet } from "./wallet";
+
+describe("adr36", () => {
+  const mnemonic = "special sign fit simple patrol salute grocery chicken wheat radar tonight ceiling";
+  const challenge = "Login to example.com: 4f2a9c";
+
+  describe("makeArbitrarySignDoc", () => {
+    it("creates the ADR-036 sign doc", () => {
+      const signDoc = makeArbitrarySignDoc("secret1mzdhlvzqtnwq3rcusn4sfhlp7s0ljg3a6rmfx0", challenge);
+      expect(Encoding.fromUtf8(serializeSignDoc(signDoc))).toEqual(
+        '{"account_number":"0","chain_id":"","fee":{"amount":[],"gas":"0"},"memo":"",' +
+          '"msgs":[{"type":"sign/MsgSignData","value":{"data":"TG9naW4gdG8gZXhhbXBsZS5jb206IDRmMmE5Yw==",' +
+          '"signer":"secret1mzdhlvzqtnwq3rcusn4sfhlp7s0ljg3a6rmfx0"}}],"sequence":"0"}',
+      );
+    });
+
+    it("encodes strings as UTF-8", () => {
+      expect(makeArbitrarySignDoc("secret1abc", challenge)).toEqual(
+        makeArbitrarySignDoc("secret1abc", Encoding.toUtf8(challenge)),
+      );
+    });
+  });
+
+  describe("signArbitrary", () => {
+    it("works with pens", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const address = rawSecp256k1PubkeyToAddress(pen.pubkey, "secret");
+      const signature = await signArbitrary(pen, address, challenge);
+      expect(await verifyArbitrary(address, challenge, signature)).toEqual(true);
+    });
+
+    it("works with OfflineSigners", async () => {
+      const wallet = await Secp256k1Wallet.fromMnemonic(mnemonic, 2);
+      const [, account] = await wallet.getAccounts();
+      const signature = await signArbitrary(wallet, account.address, Encoding.toUtf8(challenge));
+      expect(await verifyArbitrary(account.address, challenge, signature)).toEqual(true);
+
+      // same signature as a pen of the same key
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(1));
+      expect(await signArbitrary(pen, account.address, challenge)).toEqual(signature);
+    });
+
+    it("throws for pens of other addresses", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const otherPen = await Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(1));
+      const otherAddress = rawSecp256k1PubkeyToAddress(otherPen.pubkey, "secret");
+      await signArbitrary(pen, otherAddress, challenge).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/does not belong to address/),
+      );
+    });
+
+    it("throws for OfflineSigners that modify the sign doc", async () => {
+      const wallet = await Secp256k1Wallet.fromMnemonic(mnemonic);
+      const [account] = await wallet.getAccounts();
+      const signer = {
+        getAccounts: async () => wallet.getAccounts(),
+        sign: async (address: string) => wallet.sign(address, makeArbitrarySignDoc(address, "other data")),
+      };
+      await signArbitrary(signer, account.address, challenge).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/modified the sign doc/),
+      );
+    });
+  });
+
+  describe("verifyArbitrary", () => {
+    it("rejects other data and other addresses", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const address = rawSecp256k1PubkeyToAddress(pen.pubkey, "secret");
+      const otherPen = await Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(1));
+      const otherAddress = rawSecp256k1PubkeyToAddress(otherPen.pubkey, "secret");
+      const signature = await signArbitrary(pen, address, challenge);
+
+      expect(await verifyArbitrary(address, "Login to example.com: 000000", signature)).toEqual(false);
+      expect(await verifyArbitrary(otherAddress, challenge, signature)).toEqual(false);
+    });
+
+    it("rejects malformed signatures and addresses", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const address = rawSecp256k1PubkeyToAddress(pen.pubkey, "secret");
+      const signature = await signArbitrary(pen, address, challenge);
+
+      const shortSignature = { ...signature, signature: Encoding.toBase64(new Uint8Array(63)) };
+      expect(await verifyArbitrary(address, challenge, shortSignature)).toEqual(false);
+      const shortPubkey = {
+        ...signature,
+        pub_key: { ...signature.pub_key, value: Encoding.toBase64(new Uint8Array(32)) },
+      };
+      expect(await verifyArbitrary(address, challenge, shortPubkey)).toEqual(false);
+      expect(await verifyArbitrary("secret1invalid", challenge, signature)).toEqual(false);
+    });
+
+    it("rejects signatures of transactions", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const address = rawSecp256k1PubkeyToAddress(pen.pubkey, "secret");
+      const signDoc = { ...makeArbitrarySignDoc(address, challenge), chain_id: "secret-1" };
+      const signature = await pen.sign(serializeSignDoc(signDoc));
+      expect(await verifyArbitrary(address, challenge, signature)).toEqual(false);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { Bech32, Encoding } from "@iov/encoding";
+import equal from "fast-deep-equal";
+
+import { pubkeyToAddress } from "./address";
+import { makeSignBytes, StdSignDoc } from "./encoding";
+import { Pen } from "./pen";
+import { MsgSignData, StdFee, StdSignature } from "./types";
+import { isSignedBy, verifySignDoc } from "./verification";
+import { isOfflineSigner, OfflineSigner } from "./wallet";
+
+const zeroFee: StdFee = { amount: [], gas: "0" };
+
+function makeSignDataMsg(signerAddress: string, data: Uint8Array | string): MsgSignData {
+  return {
+    type: "sign/MsgSignData",
+    value: {
+      signer: signerAddress,
+      data: Encoding.toBase64(typeof data === "string" ? Encoding.toUtf8(data) : data),
+    },
+  };
+}
+
+/**
+ * Creates the ADR-036 sign doc for signing arbitrary data, i.e. a single MsgSignData with zero fee,
+ * empty chain ID and memo and zero account number and sequence. It can never be a valid transaction.
+ *
+ * @param data The data to sign. Strings are signed as UTF-8.
+ */
+export function makeArbitrarySignDoc(signerAddress: string, data: Uint8Array | string): StdSignDoc {
+  return {
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    chain_id: "",
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    account_number: "0",
+    sequence: "0",
+    fee: zeroFee,
+    msgs: [makeSignDataMsg(signerAddress, data)],
+    memo: "",
+  };
+}
+
+/**
+ * Signs arbitrary data as specified by ADR-036, e.g. a login challenge.
+ *
+ * @param signer The pen or OfflineSigner of the account
+ * @param signerAddress The address of the account
+ * @param data The data to sign. Strings are signed as UTF-8.
+ */
+export async function signArbitrary(
+  signer: Pen | OfflineSigner,
+  signerAddress: string,
+  data: Uint8Array | string,
+): Promise<StdSignature> {
+  if (isOfflineSigner(signer)) {
+    const signDoc = makeArbitrarySignDoc(signerAddress, data);
+    const { signed, signature } = await signer.sign(signerAddress, signDoc);
+    if (!equal(signed, signDoc)) throw new Error("Signer modified the sign doc of the arbitrary data");
+    return signature;
+  }
+
+  const signBytes = makeSignBytes([makeSignDataMsg(signerAddress, data)], zeroFee, "", "", 0, 0);
+  const signature = await signer.sign(signBytes);
+  if (pubkeyToAddress(signature.pub_key, Bech32.decode(signerAddress).prefix) !== signerAddress) {
+    throw new Error(`Pen does not belong to address ${signerAddress}`);
+  }
+  return signature;
+}
+
+/**
+ * Checks that arbitrary data was signed by the given address as specified by ADR-036.
+ *
+ * @param data The signed data. Strings are verified as UTF-8.
+ * @returns false for invalid signatures, including malformed signatures and addresses
+ */
+export async function verifyArbitrary(
+  signerAddress: string,
+  data: Uint8Array | string,
+  signature: StdSignature,
+): Promise<boolean> {
+  if (!isSignedBy(signature, signerAddress)) return false;
+  return verifySignDoc(makeArbitrarySignDoc(signerAddress, data), signature);
+}
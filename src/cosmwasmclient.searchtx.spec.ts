@@ -1,15 +1,20 @@
 /* eslint-disable @typescript-eslint/camelcase */
+import { Encoding } from "@iov/encoding";
 import { assert, sleep } from "@iov/utils";
 
-import { CosmWasmClient } from "./cosmwasmclient";
+import { CosmWasmClient, PrivateCosmWasmClient } from "./cosmwasmclient";
 import { makeSignBytes } from "./encoding";
 import { Secp256k1Pen } from "./pen";
-import { RestClient } from "./restclient";
+import { RestClient, SearchTxsResponse, TxsResponse } from "./restclient";
 import { SigningCosmWasmClient } from "./signingcosmwasmclient";
+import response1 from "./testdata/txresponse1.json";
+import response2 from "./testdata/txresponse2.json";
+import response3 from "./testdata/txresponse3.json";
 import {
   deployedErc20,
   faucet,
   fromOneElementArray,
+  makeNoopSecretUtils,
   makeRandomAddress,
   pendingWithoutWasmd,
   wasmd,
@@ -21,9 +26,33 @@ import {
   isMsgExecuteContract,
   isMsgInstantiateContract,
   isMsgSend,
+  MsgExecuteContract,
   MsgSend,
 } from "./types";
 
+const { toBase64 } = Encoding;
+
+/** The fixtures predate the data field, which is empty for the bank transactions they contain */
+const txResponses: readonly TxsResponse[] = [response1, response2, response3].map((response) => ({
+  ...response,
+  data: "",
+}));
+
+function makeSearchTxsResponse(
+  pageNumber: number,
+  pageTotal: number,
+  txs: readonly TxsResponse[],
+): SearchTxsResponse {
+  return {
+    total_count: "3",
+    count: txs.length.toString(),
+    page_number: pageNumber.toString(),
+    page_total: pageTotal.toString(),
+    limit: "100",
+    txs: [...txs],
+  };
+}
+
 describe("CosmWasmClient.searchTx", () => {
   let sendSuccessful:
     | {
@@ -427,11 +456,12 @@ describe("CosmWasmClient.searchTx", () => {
           code_id: deployedErc20.codeId.toString(),
           label: "HASH",
           callback_code_hash: "",
-          init_msg: jasmine.objectContaining({ symbol: "HASH" }),
+          init_msg: jasmine.any(String),
           init_funds: [],
           callback_sig: null,
         },
       });
+      expect(results[0].decryption.inputs).toEqual([jasmine.objectContaining({ symbol: "HASH" })]);
 
       // Check details of most recent result
       expect(results[results.length - 1]).toEqual(
@@ -472,4 +502,165 @@ describe("CosmWasmClient.searchTx", () => {
       );
     });
   });
+
+  describe("with SearchByContractQuery", () => {
+    it("queries the contract's wasm messages", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const txsQuerySpy = spyOn(openedClient.restClient, "txsQuery").and.resolveTo(
+        makeSearchTxsResponse(1, 1, []),
+      );
+      const contractAddress = makeRandomAddress();
+
+      await client.searchTx({ contractAddress: contractAddress }, { minHeight: 3, maxHeight: 7 });
+      await client.searchTx({
+        contractAddress: contractAddress,
+        action: "execute",
+        sentFrom: faucet.address,
+      });
+
+      expect(txsQuerySpy.calls.argsFor(0)[0]).toEqual(
+        `message.contract_address=${contractAddress}&tx.minheight=3&tx.maxheight=7&page=1&limit=100`,
+      );
+      expect(txsQuerySpy.calls.argsFor(1)[0]).toMatch(
+        new RegExp(
+          `^message.contract_address=${contractAddress}&message.action=execute&message.signer=${faucet.address}&tx.minheight=0&`,
+        ),
+      );
+    });
+
+    it("returns inputs encrypted with the client's key as JSON", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      openedClient.restClient.enigmautils = makeNoopSecretUtils();
+      const contractAddress = makeRandomAddress();
+      const handleMsg = { transfer: { recipient: makeRandomAddress(), amount: "12" } };
+      const encryptedMsg = await openedClient.restClient.enigmautils.encrypt("ab".repeat(32), handleMsg);
+      const executeMsg: MsgExecuteContract = {
+        type: "wasm/MsgExecuteContract",
+        value: {
+          sender: faucet.address,
+          contract: contractAddress,
+          callback_code_hash: "",
+          msg: toBase64(encryptedMsg),
+          sent_funds: [],
+          callback_sig: null,
+        },
+      };
+      const txResponse: TxsResponse = {
+        ...txResponses[0],
+        tx: { ...txResponses[0].tx, value: { ...txResponses[0].tx.value, msg: [executeMsg] } },
+        logs: undefined,
+      };
+      spyOn(openedClient.restClient, "get").and.resolveTo(makeSearchTxsResponse(1, 1, [txResponse]));
+
+      const result = fromOneElementArray(await client.searchTx({ contractAddress: contractAddress }));
+      expect(result.decryption).toEqual({
+        decrypted: true,
+        reason: undefined,
+        inputs: [handleMsg],
+        error: undefined,
+        pubkey: await openedClient.restClient.enigmautils.getPubkey(),
+      });
+      // the transaction is not modified
+      expect(result.tx).toEqual(txResponse.tx);
+    });
+
+    it("can search the instantiation and executions of a contract", async () => {
+      pendingWithoutWasmd();
+      assert(postedExecute, "value must be set in beforeAll()");
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const results = await client.searchTx({ contractAddress: postedExecute.contract });
+      expect(results.length).toBeGreaterThanOrEqual(2);
+
+      const first = fromOneElementArray(results[0].tx.value.msg);
+      assert(isMsgInstantiateContract(first), "First contract search result must be an instantiation");
+      expect(results[0].decryption.inputs).toEqual([jasmine.objectContaining({ symbol: "HASH" })]);
+
+      const executions = await client.searchTx({
+        contractAddress: postedExecute.contract,
+        action: "execute",
+        sentFrom: postedExecute.sender,
+      });
+      // postedExecute has no sent funds, so it can only be found by its signer
+      expect(executions.map(({ hash }) => hash)).toContain(postedExecute.hash);
+      for (const result of executions) {
+        const msg = fromOneElementArray(result.tx.value.msg);
+        assert(isMsgExecuteContract(msg), `${result.hash} (at ${result.height}) not an execute msg`);
+        expect(msg.value.sender).toEqual(postedExecute.sender);
+      }
+    });
+  });
+
+  describe("with SearchByCodeIdQuery", () => {
+    it("queries the code ID's wasm messages", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const txsQuerySpy = spyOn(openedClient.restClient, "txsQuery").and.resolveTo(
+        makeSearchTxsResponse(1, 1, []),
+      );
+
+      await client.searchTx({ codeId: 5, action: "instantiate" }, { minHeight: 3, maxHeight: 7 });
+      expect(txsQuerySpy).toHaveBeenCalledWith(
+        "message.code_id=5&message.action=instantiate&tx.minheight=3&tx.maxheight=7&page=1&limit=100",
+        false,
+      );
+    });
+
+    it("can search the instantiations of a code ID", async () => {
+      pendingWithoutWasmd();
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const results = await client.searchTx({ codeId: deployedErc20.codeId, action: "instantiate" });
+      expect(results.length).toBeGreaterThanOrEqual(3);
+      for (const result of results) {
+        const msg = fromOneElementArray(result.tx.value.msg);
+        assert(isMsgInstantiateContract(msg), `${result.hash} (at ${result.height}) not an instantiate msg`);
+        expect(msg.value.code_id).toEqual(deployedErc20.codeId.toString());
+      }
+    });
+  });
+
+  describe("pagination", () => {
+    it("collects the results of all pages", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const txsQuerySpy = spyOn(openedClient.restClient, "txsQuery").and.returnValues(
+        Promise.resolve(makeSearchTxsResponse(1, 3, [txResponses[0]])),
+        Promise.resolve(makeSearchTxsResponse(2, 3, [txResponses[1]])),
+        Promise.resolve(makeSearchTxsResponse(3, 3, [txResponses[2]])),
+      );
+
+      const result = await client.searchTx({ tags: [{ key: "message.module", value: "bank" }] });
+      expect(result.map((tx) => tx.hash)).toEqual([response1.txhash, response2.txhash, response3.txhash]);
+
+      expect(txsQuerySpy).toHaveBeenCalledTimes(3);
+      expect(txsQuerySpy.calls.argsFor(0)[0]).toMatch(/&page=1&limit=100$/);
+      expect(txsQuerySpy.calls.argsFor(1)[0]).toMatch(/&page=2&limit=100$/);
+      expect(txsQuerySpy.calls.argsFor(2)[0]).toMatch(/&page=3&limit=100$/);
+    });
+
+    it("does not return transactions twice that moved to the next page", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(openedClient.restClient, "txsQuery").and.returnValues(
+        Promise.resolve(makeSearchTxsResponse(1, 2, [txResponses[0], txResponses[1]])),
+        Promise.resolve(makeSearchTxsResponse(2, 2, [txResponses[1], txResponses[2]])),
+      );
+
+      const result = await client.searchTx({ tags: [{ key: "message.module", value: "bank" }] });
+      expect(result.map((tx) => tx.hash)).toEqual([response1.txhash, response2.txhash, response3.txhash]);
+    });
+
+    it("requests a single page when there are no results", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const txsQuerySpy = spyOn(openedClient.restClient, "txsQuery").and.resolveTo(
+        makeSearchTxsResponse(1, 0, []),
+      );
+
+      const result = await client.searchTx({ tags: [{ key: "message.module", value: "bank" }] });
+      expect(result).toEqual([]);
+      expect(txsQuerySpy).toHaveBeenCalledTimes(1);
+    });
+  });
 });
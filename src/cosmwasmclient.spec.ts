@@ -4,16 +4,30 @@ import { Bech32, Encoding } from "@iov/encoding";
 import { assert, sleep } from "@iov/utils";
 import { ReadonlyDate } from "readonly-date";
 
+import { pubkeyToAddress } from "./address";
 import { Code, CosmWasmClient, PrivateCosmWasmClient } from "./cosmwasmclient";
-import { makeSignBytes } from "./encoding";
+import { encodeAminoTx, makeSignBytes } from "./encoding";
+import {
+  AccountNotFoundError,
+  BroadcastTxError,
+  ContractNotFoundError,
+  HttpError,
+  TxTimeoutError,
+} from "./errors";
 import { findAttribute } from "./logs";
+import { createMultisigThresholdPubKey } from "./multisig";
 import { Secp256k1Pen } from "./pen";
+import { encodeBech32Pubkey } from "./pubkey";
+import { BlockResponse, TxsResponse, UndecryptedReason } from "./restclient";
 import { SigningCosmWasmClient } from "./signingcosmwasmclient";
 import cosmoshub from "./testdata/cosmoshub.json";
+import response1 from "./testdata/txresponse1.json";
 import {
   deployedErc20,
   faucet,
+  fromOneElementArray,
   getHackatom,
+  makeNoopSecretUtils,
   makeRandomAddress,
   pendingWithoutWasmd,
   tendermintIdMatcher,
@@ -21,9 +35,10 @@ import {
   wasmd,
   wasmdEnabled,
 } from "./testutils.spec";
-import { MsgSend, StdFee } from "./types";
+import { isMsgExecuteContract, MsgExecuteContract, MsgSend, StdFee } from "./types";
+import { MemoryViewingKeyStore } from "./viewingkeystore";
 
-const { fromHex, fromUtf8, toAscii, toBase64 } = Encoding;
+const { fromBase64, fromHex, fromUtf8, toAscii, toBase64, toHex } = Encoding;
 
 const guest = {
   address: "cosmos17d0jcz59jf68g52vq38tuuncmwwjk42u6mcxej",
@@ -37,6 +52,31 @@ interface HackatomInstance {
   readonly address: string;
 }
 
+function makeBlockResponse(height: number, txs: readonly string[]): BlockResponse {
+  return {
+    block_id: { hash: "7AF200C78FBF9236944E1AB270F4045CD60972B7C265E3A9DA42973397572931" },
+    block: {
+      header: {
+        version: { block: "10", app: "0" },
+        height: height.toString(),
+        chain_id: "testing",
+        time: "2020-02-15T10:39:10.4696305Z",
+        last_commit_hash: "",
+        last_block_id: { hash: "" },
+        data_hash: "",
+        validators_hash: "",
+        next_validators_hash: "",
+        consensus_hash: "",
+        app_hash: "",
+        last_results_hash: "",
+        evidence_hash: "",
+        proposer_address: "",
+      },
+      data: { txs: txs },
+    },
+  };
+}
+
 describe("CosmWasmClient", () => {
   describe("makeReadOnly", () => {
     it("can be constructed", () => {
@@ -124,6 +164,19 @@ describe("CosmWasmClient", () => {
         (error) => expect(error).toMatch(/account does not exist on chain/i),
       );
     });
+
+    it("throws an AccountNotFoundError for missing accounts", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const missing = makeRandomAddress();
+      spyOn(client, "getAccount").and.resolveTo(undefined);
+      await client.getNonce(missing).then(
+        () => fail("this must not succeed"),
+        (error) => {
+          expect(error).toEqual(jasmine.any(AccountNotFoundError));
+          expect(error.address).toEqual(missing);
+        },
+      );
+    });
   });
 
   describe("getAccount", () => {
@@ -148,6 +201,29 @@ describe("CosmWasmClient", () => {
       const missing = makeRandomAddress();
       expect(await client.getAccount(missing)).toBeUndefined();
     });
+
+    it("works for multisig accounts", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const multisigPubkey = createMultisigThresholdPubKey([faucet.pubkey, unused.pubkey], 2);
+      const address = pubkeyToAddress(multisigPubkey, "cosmos");
+      spyOn(openedClient.restClient, "authAccounts").and.resolveTo({
+        height: "1234",
+        result: {
+          type: "cosmos-sdk/Account",
+          value: {
+            address: address,
+            coins: [],
+            public_key: encodeBech32Pubkey(multisigPubkey, "cosmospub"),
+            account_number: 17,
+            sequence: 3,
+          },
+        },
+      });
+
+      const account = await client.getAccount(address);
+      expect(account?.pubkey).toEqual(multisigPubkey);
+    });
   });
 
   describe("getBlock", () => {
@@ -191,14 +267,73 @@ describe("CosmWasmClient", () => {
       // txs
       expect(Array.isArray(response.txs)).toEqual(true);
     });
+
+    it("can decode transactions", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const undecodable = new Uint8Array([0x04, 0xaa, 0xbb, 0xcc, 0xdd]);
+      spyOn(openedClient.restClient, "blocks").and.resolveTo(
+        makeBlockResponse(415777, [cosmoshub.tx_data, toBase64(undecodable)]),
+      );
+
+      const { txs, decodedTxs } = await client.getBlock(415777, { decodeTxs: true, bech32Prefix: "cosmos" });
+      expect(txs).toEqual([fromBase64(cosmoshub.tx_data), undecodable]);
+      expect(decodedTxs).toEqual([
+        { hash: cosmoshub.id, tx: cosmoshub.tx.value },
+        { hash: toHex(new Sha256(undecodable).digest()).toUpperCase(), tx: undefined },
+      ]);
+    });
+
+    it("decrypts inputs encrypted with the client's key", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      openedClient.restClient.enigmautils = makeNoopSecretUtils();
+      const codeHash = "ab".repeat(32);
+      const encryptedMsg = await openedClient.restClient.enigmautils.encrypt(codeHash, { release: {} });
+      const executeMsg: MsgExecuteContract = {
+        type: "wasm/MsgExecuteContract",
+        value: {
+          sender: faucet.address,
+          contract: deployedErc20.instances[0],
+          callback_code_hash: "",
+          msg: toBase64(encryptedMsg),
+          sent_funds: [],
+          callback_sig: null,
+        },
+      };
+      const tx = encodeAminoTx({ ...cosmoshub.tx.value, msg: [executeMsg] });
+      spyOn(openedClient.restClient, "blocks").and.resolveTo(makeBlockResponse(1234, [toBase64(tx)]));
+
+      const { decodedTxs } = await client.getBlock(1234, { decodeTxs: true, bech32Prefix: "cosmos" });
+      assert(decodedTxs);
+      const decodedMsg = fromOneElementArray(decodedTxs)?.tx?.msg[0];
+      assert(decodedMsg && isMsgExecuteContract(decodedMsg));
+      expect(decodedMsg.value.msg).toEqual({ release: {} });
+    });
+
+    it("does not decode transactions by default", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(openedClient.restClient, "blocks").and.resolveTo(makeBlockResponse(415777, [cosmoshub.tx_data]));
+
+      const { decodedTxs } = await client.getBlock(415777);
+      expect(decodedTxs).toBeUndefined();
+    });
   });
 
   describe("getIdentifier", () => {
     it("works", async () => {
-      pendingWithoutWasmd();
       const client = new CosmWasmClient(wasmd.endpoint);
       expect(await client.getIdentifier(cosmoshub.tx)).toEqual(cosmoshub.id);
     });
+
+    it("does not use the REST API", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const encodeTxSpy = spyOn(openedClient.restClient, "encodeTx");
+      expect(await client.getIdentifier(response1.tx)).toEqual(response1.txhash);
+      expect(encodeTxSpy).toHaveBeenCalledTimes(0);
+    });
   });
 
   describe("postTx", () => {
@@ -247,6 +382,99 @@ describe("CosmWasmClient", () => {
       expect(amountAttr.value).toEqual("1234567ucosm");
       expect(transactionHash).toMatch(/^[0-9A-F]{64}$/);
     });
+
+    it("throws a BroadcastTxError for failed transactions", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(openedClient.restClient, "postTx").and.resolveTo({
+        height: "0",
+        txhash: "3F3B87DDA0DDCC6AC7DCE2AF1BC22E1DDAE4D2C3C44ADB4BB08FE0458A8B2F0C",
+        codespace: "sdk",
+        code: 5,
+        raw_log: "insufficient funds",
+        data: "",
+      });
+
+      await client.postTx(cosmoshub.tx.value).then(
+        () => fail("this must not succeed"),
+        (error) => {
+          expect(error).toEqual(jasmine.any(BroadcastTxError));
+          expect(error.code).toEqual(5);
+          expect(error.codespace).toEqual("sdk");
+          expect(error.txhash).toEqual("3F3B87DDA0DDCC6AC7DCE2AF1BC22E1DDAE4D2C3C44ADB4BB08FE0458A8B2F0C");
+          expect(error.log).toEqual("insufficient funds");
+        },
+      );
+    });
+  });
+
+  describe("waitForTx", () => {
+    const txResponse: TxsResponse = { ...response1, data: "" };
+
+    it("polls until the transaction is found", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const txByIdSpy = spyOn(openedClient.restClient, "txById").and.callFake(async () => {
+        if (txByIdSpy.calls.count() < 3) {
+          throw new HttpError(404, `Tx: response error: RPC error -32603 - not found`);
+        }
+        return txResponse;
+      });
+
+      const tx = await client.waitForTx(txResponse.txhash, { pollInterval: 10 });
+      expect(tx.hash).toEqual(txResponse.txhash);
+      expect(tx.height).toEqual(parseInt(txResponse.height, 10));
+      expect(tx.code).toEqual(0);
+      expect(tx.tx).toEqual(txResponse.tx);
+      expect(tx.decryption.reason).toEqual(UndecryptedReason.NotEncrypted);
+      expect(txByIdSpy).toHaveBeenCalledTimes(3);
+      expect(txByIdSpy).toHaveBeenCalledWith(txResponse.txhash, false);
+    });
+
+    it("returns failed transactions", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(openedClient.restClient, "txById").and.resolveTo({
+        ...txResponse,
+        code: 5,
+        raw_log: "insufficient funds",
+      });
+
+      const tx = await client.waitForTx(txResponse.txhash);
+      expect(tx.code).toEqual(5);
+      expect(tx.rawLog).toEqual("insufficient funds");
+    });
+
+    it("throws a TxTimeoutError when the transaction is not found in time", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const txByIdSpy = spyOn(openedClient.restClient, "txById").and.rejectWith(
+        new HttpError(404, `Tx: response error: RPC error -32603 - not found`),
+      );
+
+      await client.waitForTx(txResponse.txhash, { timeout: 50, pollInterval: 10 }).then(
+        () => fail("must not resolve"),
+        (error) => {
+          expect(error).toEqual(jasmine.any(TxTimeoutError));
+          expect(error.txhash).toEqual(txResponse.txhash);
+        },
+      );
+      expect(txByIdSpy.calls.count()).toBeGreaterThan(1);
+    });
+
+    it("does not retry other errors", async () => {
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const txByIdSpy = spyOn(openedClient.restClient, "txById").and.rejectWith(
+        new HttpError(400, "invalid hash"),
+      );
+
+      await client.waitForTx("ABCD", { pollInterval: 10 }).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/invalid hash/),
+      );
+      expect(txByIdSpy).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("getCodes", () => {
@@ -463,5 +691,52 @@ describe("CosmWasmClient", () => {
         (error) => expect(error).toMatch(`No contract found at address "${nonExistentAddress}"`),
       );
     });
+
+    it("throws a ContractNotFoundError for non-existent contract", async () => {
+      const nonExistentAddress = makeRandomAddress();
+      const client = new CosmWasmClient(wasmd.endpoint);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(openedClient.restClient, "queryContractSmart").and.rejectWith(
+        new HttpError(500, `not found: contract ${nonExistentAddress}`),
+      );
+
+      await client.queryContractSmart(nonExistentAddress, { verifier: {} }).then(
+        () => fail("must not succeed"),
+        (error) => {
+          expect(error).toEqual(jasmine.any(ContractNotFoundError));
+          expect(error.address).toEqual(nonExistentAddress);
+        },
+      );
+    });
+
+    it("adds viewing keys from the viewing key store", async () => {
+      const viewingKeyStore = new MemoryViewingKeyStore();
+      const client = new CosmWasmClient(wasmd.endpoint, undefined, undefined, undefined, viewingKeyStore);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const querySpy = spyOn(openedClient.restClient, "queryContractSmart").and.resolveTo({});
+      const contractAddress = makeRandomAddress();
+      const owner = makeRandomAddress();
+      await viewingKeyStore.set(owner, contractAddress, "api_key_stored");
+
+      await client.queryContractSmart(contractAddress, { balance: { address: owner } });
+      expect(querySpy).toHaveBeenCalledWith(contractAddress, {
+        balance: { address: owner, key: "api_key_stored" },
+      });
+
+      // explicit keys win
+      await client.queryContractSmart(contractAddress, {
+        balance: { address: owner, key: "api_key_explicit" },
+      });
+      expect(querySpy).toHaveBeenCalledWith(contractAddress, {
+        balance: { address: owner, key: "api_key_explicit" },
+      });
+
+      // unknown addresses and other queries are passed on as they are
+      const stranger = makeRandomAddress();
+      await client.queryContractSmart(contractAddress, { balance: { address: stranger } });
+      expect(querySpy).toHaveBeenCalledWith(contractAddress, { balance: { address: stranger } });
+      await client.queryContractSmart(contractAddress, { token_info: {} });
+      expect(querySpy).toHaveBeenCalledWith(contractAddress, { token_info: {} });
+    });
   });
 });
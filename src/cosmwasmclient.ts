@@ -1,10 +1,23 @@
 import { Sha256 } from "@iov/crypto";
 import { Encoding } from "@iov/encoding";
-
+import { sleep } from "@iov/utils";
+
+import { decodeAminoTx } from "./decoding";
+import { encodeAminoTx } from "./encoding";
+import { X25519Keypair } from "./enigmautils";
+import {
+  AccountNotFoundError,
+  BroadcastTxError,
+  ContractNotFoundError,
+  HttpError,
+  TxTimeoutError,
+} from "./errors";
 import { Log, parseLogs } from "./logs";
 import { decodeBech32Pubkey } from "./pubkey";
-import { BroadcastMode, RestClient } from "./restclient";
-import { Coin, CosmosSdkTx, JsonObject, PubKey, StdTx } from "./types";
+import { BroadcastMode, DecryptedTxsResponse, RestClient, TxDecryption, TxsResponse } from "./restclient";
+import { Transport } from "./transport";
+import { Coin, CosmosSdkTx, JsonObject, MultisigThresholdPubKey, PubKey, StdTx } from "./types";
+import { ViewingKeyStore } from "./viewingkeystore";
 
 export interface GetNonceResult {
   readonly accountNumber: number;
@@ -15,7 +28,7 @@ export interface Account {
   /** Bech32 account address */
   readonly address: string;
   readonly balance: ReadonlyArray<Coin>;
-  readonly pubkey: PubKey | undefined;
+  readonly pubkey: PubKey | MultisigThresholdPubKey | undefined;
   readonly accountNumber: number;
   readonly sequence: number;
 }
@@ -48,11 +61,35 @@ export interface SearchByTagsQuery {
   readonly tags: readonly { readonly key: string; readonly value: string }[];
 }
 
+/**
+ * Searches the instantiation and all executions of a contract. Inputs encrypted
+ * with this client's key are returned decrypted.
+ */
+export interface SearchByContractQuery {
+  /** Bech32 address of the contract */
+  readonly contractAddress: string;
+  /** Only include instantiations or executions */
+  readonly action?: "instantiate" | "execute";
+  /** Only include transactions that were signed by this bech32 address */
+  readonly sentFrom?: string;
+}
+
+/** Searches the upload and all instantiations of a code ID */
+export interface SearchByCodeIdQuery {
+  readonly codeId: number;
+  /** Only include the upload or instantiations */
+  readonly action?: "store-code" | "instantiate";
+  /** Only include transactions that were signed by this bech32 address */
+  readonly sentFrom?: string;
+}
+
 export type SearchTxQuery =
   | SearchByIdQuery
   | SearchByHeightQuery
   | SearchBySentFromOrToQuery
-  | SearchByTagsQuery;
+  | SearchByTagsQuery
+  | SearchByContractQuery
+  | SearchByCodeIdQuery;
 
 function isSearchByIdQuery(query: SearchTxQuery): query is SearchByIdQuery {
   return (query as SearchByIdQuery).id !== undefined;
@@ -70,6 +107,46 @@ function isSearchByTagsQuery(query: SearchTxQuery): query is SearchByTagsQuery {
   return (query as SearchByTagsQuery).tags !== undefined;
 }
 
+function isSearchByContractQuery(query: SearchTxQuery): query is SearchByContractQuery {
+  return (query as SearchByContractQuery).contractAddress !== undefined;
+}
+
+function isSearchByCodeIdQuery(query: SearchTxQuery): query is SearchByCodeIdQuery {
+  return (query as SearchByCodeIdQuery).codeId !== undefined;
+}
+
+/**
+ * Normalizes the data field of a transaction response, which is either hex encoded
+ * or already decrypted into bytes.
+ */
+function parseTxData(data: string | Uint8Array | undefined): Uint8Array | undefined {
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  return data ? Encoding.fromHex(data) : undefined;
+}
+
+/** Creates the wasm message tags of a contract or code ID search */
+function wasmMessageTags(
+  key: "contract_address" | "code_id",
+  value: string,
+  action: string | undefined,
+  sentFrom: string | undefined,
+): string {
+  const tags = [`message.${key}=${value}`];
+  if (action) tags.push(`message.action=${action}`);
+  // wasm handlers emit the signer, message.sender only exists for transfers of sent funds
+  if (sentFrom) tags.push(`message.signer=${sentFrom}`);
+  return tags.join("&");
+}
+
+export interface WaitForTxOptions {
+  /** How long to wait for the transaction to be included in a block in milliseconds. Defaults to 60 seconds. */
+  readonly timeout?: number;
+  /** The time between two lookups of the transaction in milliseconds. Defaults to one second. */
+  readonly pollInterval?: number;
+}
+
 export interface SearchTxFilter {
   readonly minHeight?: number;
   readonly maxHeight?: number;
@@ -112,13 +189,18 @@ export interface IndexedTx {
   readonly code: number;
   readonly rawLog: string;
   readonly logs: readonly Log[];
+  /** The transaction as returned by the node, i.e. with encrypted contract inputs */
   readonly tx: CosmosSdkTx;
+  /** The data returned by the execution, decrypted if possible */
+  readonly data?: Uint8Array;
   /** The gas limit as set by the user */
   readonly gasWanted?: number;
   /** The gas used by the execution */
   readonly gasUsed?: number;
   /** An RFC 3339 time string like e.g. '2020-02-15T10:39:10.4696305Z' */
   readonly timestamp: string;
+  /** Decrypted contract inputs and errors, or the reason why they could not be decrypted */
+  readonly decryption: TxDecryption;
 }
 
 export interface BlockHeader {
@@ -132,12 +214,32 @@ export interface BlockHeader {
   readonly time: string;
 }
 
+/** A transaction of a block, decoded from its Amino binary representation */
+export interface BlockTx {
+  /** Transaction hash (might be used as transaction ID). Guaranteed to be non-empty upper-case hex */
+  readonly hash: string;
+  /**
+   * The decoded transaction. Inputs of wasm messages that were encrypted with this client's key are decrypted.
+   * Undefined if the transaction contains messages that cannot be decoded by this library.
+   */
+  readonly tx: StdTx | undefined;
+}
+
 export interface Block {
   /** The ID is a hash of the block header (uppercase hex) */
   readonly id: string;
   readonly header: BlockHeader;
   /** Array of raw transactions */
   readonly txs: ReadonlyArray<Uint8Array>;
+  /** The decoded transactions in the same order as txs. Only set when requested. */
+  readonly decodedTxs?: readonly BlockTx[];
+}
+
+export interface GetBlockOptions {
+  /** Decode the transactions of the block, see Block.decodedTxs */
+  readonly decodeTxs?: boolean;
+  /** The bech32 prefix of the addresses in decoded transactions. Defaults to "secret". */
+  readonly bech32Prefix?: string;
 }
 
 /** Use for testing only */
@@ -149,6 +251,8 @@ export class CosmWasmClient {
   protected readonly restClient: RestClient;
   /** Any address the chain considers valid (valid bech32 with proper prefix) */
   protected anyValidAddress: string | undefined;
+  /** Provides the viewing keys of smart queries */
+  public readonly viewingKeyStore: ViewingKeyStore | undefined;
 
   private readonly codesCache = new Map<number, CodeDetails>();
   private chainId: string | undefined;
@@ -161,9 +265,20 @@ export class CosmWasmClient {
    *
    * @param apiUrl The URL of a Cosmos SDK light client daemon API (sometimes called REST server or REST API)
    * @param broadcastMode Defines at which point of the transaction processing the postTx method (i.e. transaction broadcasting) returns
+   * @param transport Sends the HTTP requests, e.g. an HttpTransport with retries and failover URLs
+   * @param viewingKeyStore Provides the viewing keys of smart queries, see queryContractSmart
+   * @param keyring Additional x25519 keypairs that transactions are decrypted with, e.g. from former seeds
    */
-  public constructor(apiUrl: string, seed?: Uint8Array, broadcastMode = BroadcastMode.Block) {
-    this.restClient = new RestClient(apiUrl, broadcastMode, seed);
+  public constructor(
+    apiUrl: string,
+    seed?: Uint8Array,
+    broadcastMode = BroadcastMode.Block,
+    transport?: Transport,
+    viewingKeyStore?: ViewingKeyStore,
+    keyring?: readonly X25519Keypair[],
+  ) {
+    this.restClient = new RestClient(apiUrl, broadcastMode, seed, transport, keyring);
+    this.viewingKeyStore = viewingKeyStore;
   }
 
   public async getChainId(): Promise<string> {
@@ -193,8 +308,7 @@ export class CosmWasmClient {
    * Returns a 32 byte upper-case hex transaction hash (typically used as the transaction ID)
    */
   public async getIdentifier(tx: CosmosSdkTx): Promise<string> {
-    // We consult the REST API because we don't have a local amino encoder
-    const bytes = await this.restClient.encodeTx(tx);
+    const bytes = encodeAminoTx(tx.value);
     const hash = new Sha256(bytes).digest();
     return Encoding.toHex(hash).toUpperCase();
   }
@@ -209,9 +323,7 @@ export class CosmWasmClient {
   public async getNonce(address: string): Promise<GetNonceResult> {
     const account = await this.getAccount(address);
     if (!account) {
-      throw new Error(
-        "Account does not exist on chain. Send some tokens there before trying to query nonces.",
-      );
+      throw new AccountNotFoundError(address);
     }
     return {
       accountNumber: account.accountNumber,
@@ -240,10 +352,12 @@ export class CosmWasmClient {
    * Gets block header and meta
    *
    * @param height The height of the block. If undefined, the latest height is used.
+   * @param options Allows decoding the transactions of the block
    */
-  public async getBlock(height?: number): Promise<Block> {
+  public async getBlock(height?: number, options: GetBlockOptions = {}): Promise<Block> {
     const response =
       height !== undefined ? await this.restClient.blocks(height) : await this.restClient.blocksLatest();
+    const txs = (response.block.data.txs || []).map((encoded) => Encoding.fromBase64(encoded));
 
     return {
       id: response.block_id.hash,
@@ -253,7 +367,10 @@ export class CosmWasmClient {
         height: parseInt(response.block.header.height, 10),
         chainId: response.block.header.chain_id,
       },
-      txs: (response.block.data.txs || []).map((encoded) => Encoding.fromBase64(encoded)),
+      txs: txs,
+      decodedTxs: options.decodeTxs
+        ? await Promise.all(txs.map((tx) => this.decodeBlockTx(tx, options.bech32Prefix || "secret")))
+        : undefined,
     };
   }
 
@@ -289,6 +406,14 @@ export class CosmWasmClient {
     } else if (isSearchByTagsQuery(query)) {
       const rawQuery = withFilters(query.tags.map((t) => `${t.key}=${t.value}`).join("&"));
       txs = await this.txsQuery(rawQuery);
+    } else if (isSearchByContractQuery(query)) {
+      txs = await this.txsQuery(
+        withFilters(wasmMessageTags("contract_address", query.contractAddress, query.action, query.sentFrom)),
+      );
+    } else if (isSearchByCodeIdQuery(query)) {
+      txs = await this.txsQuery(
+        withFilters(wasmMessageTags("code_id", query.codeId.toString(), query.action, query.sentFrom)),
+      );
     } else {
       throw new Error("Unknown query type");
     }
@@ -306,9 +431,7 @@ export class CosmWasmClient {
     }
 
     if (result.code) {
-      throw new Error(
-        `Error when posting tx ${result.txhash}. Code: ${result.code}; Raw log: ${result.raw_log}`,
-      );
+      throw new BroadcastTxError(result.code, result.codespace, result.txhash, result.raw_log || "");
     }
 
     return {
@@ -319,6 +442,17 @@ export class CosmWasmClient {
     };
   }
 
+  /**
+   * Waits until a transaction that was broadcast in sync or async mode is included in a block.
+   *
+   * Throws a TxTimeoutError if the transaction is not found in time. Failed transactions
+   * are returned as well, check the code of the result.
+   */
+  public async waitForTx(hash: string, options: WaitForTxOptions = {}): Promise<IndexedTx> {
+    const response = await this.pollTx(hash, options);
+    return this.toIndexedTx(await this.restClient.decryptTx(response));
+  }
+
   public async getCodes(): Promise<readonly Code[]> {
     const result = await this.restClient.listCodeInfo();
     return result.map(
@@ -369,7 +503,7 @@ export class CosmWasmClient {
    */
   public async getContract(address: string): Promise<ContractDetails> {
     const result = await this.restClient.getContractInfo(address);
-    if (!result) throw new Error(`No contract found at address "${address}"`);
+    if (!result) throw new ContractNotFoundError(address);
     return {
       address: result.address,
       codeId: result.code_id,
@@ -395,47 +529,105 @@ export class CosmWasmClient {
   /**
    * Makes a smart query on the contract, returns the parsed JSON document.
    *
-   * Promise is rejected when contract does not exist.
-   * Promise is rejected for invalid query format.
+   * Promise is rejected with a ContractNotFoundError when contract does not exist.
+   * Promise is rejected with a ContractQueryError for invalid query format.
    * Promise is rejected for invalid response format.
+   *
+   * When the client has a viewing key store, SNIP-20 style queries without viewing key, i.e.
+   * `{ "<query>": { "address": "<address>" } }`, get the key of the address for this contract.
    */
   public async queryContractSmart(address: string, queryMsg: object): Promise<JsonObject> {
     try {
-      return await this.restClient.queryContractSmart(address, queryMsg);
+      return await this.restClient.queryContractSmart(address, await this.addViewingKey(address, queryMsg));
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.startsWith("not found: contract")) {
-          throw new Error(`No contract found at address "${address}"`);
-        } else {
-          throw error;
-        }
+      if (error instanceof HttpError && error.errorText.startsWith("not found: contract")) {
+        throw new ContractNotFoundError(address);
       } else {
         throw error;
       }
     }
   }
 
+  /** Adds the stored viewing key to a query of the form `{ "<query>": { "address": "<address>" } }` */
+  private async addViewingKey(contractAddress: string, queryMsg: object): Promise<object> {
+    const entries = Object.entries(queryMsg);
+    if (!this.viewingKeyStore || entries.length !== 1) return queryMsg;
+
+    const [[name, params]] = entries;
+    if (typeof params !== "object" || params === null) return queryMsg;
+    if (typeof params.address !== "string" || params.key !== undefined) {
+      return queryMsg;
+    }
+    const viewingKey = await this.viewingKeyStore.get(params.address, contractAddress);
+    return viewingKey === undefined ? queryMsg : { [name]: { ...params, key: viewingKey } };
+  }
+
+  private async decodeBlockTx(data: Uint8Array, bech32Prefix: string): Promise<BlockTx> {
+    const hash = Encoding.toHex(new Sha256(data).digest()).toUpperCase();
+    let tx: StdTx;
+    try {
+      tx = decodeAminoTx(data, bech32Prefix);
+    } catch (error) {
+      return { hash: hash, tx: undefined };
+    }
+    return { hash: hash, tx: { ...tx, msg: await this.restClient.decryptMsgs(tx.msg) } };
+  }
+
+  /** Looks up the transaction until it is found, without decrypting it */
+  protected async pollTx(hash: string, options: WaitForTxOptions): Promise<TxsResponse> {
+    const timeout = options.timeout ?? 60000;
+    const pollInterval = options.pollInterval ?? 1000;
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      try {
+        return await this.restClient.txById(hash, false);
+      } catch (error) {
+        // not found (yet)
+        if (!(error instanceof HttpError && error.status === 404)) throw error;
+      }
+      if (Date.now() + pollInterval > deadline) {
+        throw new TxTimeoutError(hash, timeout);
+      }
+      await sleep(pollInterval);
+    }
+  }
+
+  private toIndexedTx(restItem: DecryptedTxsResponse): IndexedTx {
+    return {
+      height: parseInt(restItem.height, 10),
+      hash: restItem.txhash,
+      code: restItem.code || 0,
+      rawLog: restItem.raw_log,
+      logs: parseLogs(restItem.logs || []),
+      tx: restItem.tx,
+      data: parseTxData(restItem.data),
+      gasWanted: restItem.gas_wanted ? parseInt(restItem.gas_wanted, 10) : undefined,
+      gasUsed: restItem.gas_used ? parseInt(restItem.gas_used, 10) : undefined,
+      timestamp: restItem.timestamp,
+      decryption: restItem.decryption,
+    };
+  }
+
+  /**
+   * Fetches all pages of results for the query, each of them decrypted without modifying the transaction.
+   * Transactions that show up on multiple pages (because new transactions were indexed while paging)
+   * are only included once.
+   */
   private async txsQuery(query: string): Promise<readonly IndexedTx[]> {
-    // TODO: we need proper pagination support
     const limit = 100;
-    const result = await this.restClient.txsQuery(`${query}&limit=${limit}`);
-    const pages = parseInt(result.page_total, 10);
-    if (pages > 1) {
-      throw new Error(
-        `Found more results on the backend than we can process currently. Results: ${result.total_count}, supported: ${limit}`,
-      );
+    const txs = new Array<IndexedTx>();
+    let pageTotal = 1;
+    for (let page = 1; page <= pageTotal; page++) {
+      const result = await this.restClient.txsQuery(`${query}&page=${page}&limit=${limit}`, false);
+      pageTotal = parseInt(result.page_total, 10);
+
+      const knownHashes = txs.map((t) => t.hash);
+      for (const rawItem of result.txs) {
+        if (knownHashes.includes(rawItem.txhash)) continue;
+        txs.push(this.toIndexedTx(await this.restClient.decryptTx(rawItem)));
+      }
     }
-    return result.txs.map(
-      (restItem): IndexedTx => ({
-        height: parseInt(restItem.height, 10),
-        hash: restItem.txhash,
-        code: restItem.code || 0,
-        rawLog: restItem.raw_log,
-        logs: parseLogs(restItem.logs || []),
-        tx: restItem.tx,
-        timestamp: restItem.timestamp,
-      }),
-    );
+    return txs;
   }
 
   public getCodeHashByCodeId(id: number): Promise<string> {
@@ -0,0 +1,84 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import { Encoding } from "@iov/encoding";
+
+import { decodeAminoTx } from "./decoding";
+import { encodeAminoTx } from "./encoding";
+import cosmoshub from "./testdata/cosmoshub.json";
+import response1 from "./testdata/txresponse1.json";
+import wasmtx from "./testdata/wasmtx.json";
+import { MsgExecuteContract, MsgInstantiateContract, MsgStoreCode, StdTx } from "./types";
+
+const { fromBase64, toBase64 } = Encoding;
+
+const sender = "cosmos1pkptre7fdkl6gfrzlesjjvhxhlc3r4gmmk8rs6";
+const contract = "cosmos18vd8fpwxzck93qlwghaj6arh4p7c5n89uzcee5";
+
+describe("decoding", () => {
+  describe("decodeAminoTx", () => {
+    it("works for cosmoshub example", () => {
+      expect(decodeAminoTx(fromBase64(cosmoshub.tx_data), "cosmos")).toEqual(cosmoshub.tx.value);
+    });
+
+    it("works for wasm messages", () => {
+      expect(decodeAminoTx(fromBase64(wasmtx.tx_data), "secret")).toEqual(wasmtx.tx.value);
+    });
+
+    it("is the inverse of encodeAminoTx for fixtures", () => {
+      expect(decodeAminoTx(encodeAminoTx(response1.tx.value), "cosmos")).toEqual(response1.tx.value);
+    });
+
+    it("is the inverse of encodeAminoTx for wasm messages", () => {
+      const storeCode: MsgStoreCode = {
+        type: "wasm/MsgStoreCode",
+        value: {
+          sender: sender,
+          wasm_byte_code: toBase64(new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01])),
+          source: "https://crates.io/api/v1/crates/cw-erc20/0.1.0/download",
+          builder: "confio/cosmwasm-opt:0.7.3",
+        },
+      };
+      const instantiate: MsgInstantiateContract = {
+        type: "wasm/MsgInstantiateContract",
+        value: {
+          sender: sender,
+          code_id: "1234",
+          label: "my contract",
+          callback_code_hash: "",
+          init_msg: toBase64(new Uint8Array(80).fill(0x11)),
+          init_funds: [{ denom: "uscrt", amount: "1000" }],
+          callback_sig: null,
+        },
+      };
+      const execute: MsgExecuteContract = {
+        type: "wasm/MsgExecuteContract",
+        value: {
+          sender: sender,
+          contract: contract,
+          callback_code_hash: "",
+          msg: toBase64(new Uint8Array(300).fill(0x22)),
+          sent_funds: [],
+          callback_sig: null,
+        },
+      };
+      const tx: StdTx = {
+        msg: [storeCode, instantiate, execute],
+        fee: {
+          amount: [{ denom: "uscrt", amount: "50000" }],
+          gas: "200000",
+        },
+        signatures: response1.tx.value.signatures,
+        memo: "With wasm",
+      };
+
+      expect(decodeAminoTx(encodeAminoTx(tx), "cosmos")).toEqual(tx);
+    });
+
+    it("throws for data that is not a length prefixed StdTx", () => {
+      const data = fromBase64(cosmoshub.tx_data);
+      expect(() => decodeAminoTx(data.slice(0, data.length - 1), "cosmos")).toThrowError(/length prefix/i);
+      expect(() => decodeAminoTx(new Uint8Array([0x04, 0xaa, 0xbb, 0xcc, 0xdd]), "cosmos")).toThrowError(
+        /not an amino encoded stdtx/i,
+      );
+    });
+  });
+});
@@ -1,6 +1,23 @@
-import { Encoding } from "@iov/encoding";
+import { Bech32, Encoding } from "@iov/encoding";
+import equal from "fast-deep-equal";
 
-import { isStdTx, StdTx } from "./types";
+import { aminoPrefix, aminoTypeStdTx, AminoWireType } from "./encoding";
+import { decodeAminoPubkey } from "./pubkey";
+import {
+  Coin,
+  isStdTx,
+  Msg,
+  MsgExecuteContract,
+  MsgInstantiateContract,
+  MsgSend,
+  MsgStoreCode,
+  StdFee,
+  StdSignature,
+  StdTx,
+} from "./types";
+import { decodeUvarint } from "./varint";
+
+const { fromUtf8, toBase64 } = Encoding;
 
 export function unmarshalTx(data: Uint8Array): StdTx {
   const decoded = JSON.parse(Encoding.fromUtf8(data));
@@ -9,3 +26,189 @@ export function unmarshalTx(data: Uint8Array): StdTx {
   }
   return decoded;
 }
+
+/** The fields of an Amino encoded struct, grouped by field number in order of appearance */
+type AminoFields = Map<number, (number | Uint8Array)[]>;
+
+function decodeFields(data: Uint8Array): AminoFields {
+  const fields: AminoFields = new Map();
+  let offset = 0;
+  while (offset < data.length) {
+    const key = decodeUvarint(data, offset);
+    offset += key.length;
+    const fieldNumber = Math.floor(key.value / 8);
+    const wireType = key.value % 8;
+
+    let value: number | Uint8Array;
+    switch (wireType) {
+      case AminoWireType.Varint: {
+        const decoded = decodeUvarint(data, offset);
+        offset += decoded.length;
+        value = decoded.value;
+        break;
+      }
+      case AminoWireType.ByteLength: {
+        const length = decodeUvarint(data, offset);
+        offset += length.length;
+        if (offset + length.value > data.length) {
+          throw new Error("Unexpected end of data while decoding length prefixed field");
+        }
+        value = data.slice(offset, offset + length.value);
+        offset += length.value;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported Amino wire type: ${wireType}`);
+    }
+
+    fields.set(fieldNumber, [...(fields.get(fieldNumber) || []), value]);
+  }
+  return fields;
+}
+
+function getBytesFields(fields: AminoFields, fieldNumber: number): readonly Uint8Array[] {
+  return (fields.get(fieldNumber) || []).map((value) => {
+    if (typeof value === "number") throw new Error(`Field ${fieldNumber} must be length prefixed`);
+    return value;
+  });
+}
+
+/** Returns the last occurrence of a length prefixed field, or an empty byte slice if unset */
+function getBytesField(fields: AminoFields, fieldNumber: number): Uint8Array {
+  const values = getBytesFields(fields, fieldNumber);
+  return values.length ? values[values.length - 1] : new Uint8Array();
+}
+
+function getStringField(fields: AminoFields, fieldNumber: number): string {
+  return fromUtf8(getBytesField(fields, fieldNumber));
+}
+
+function getUintField(fields: AminoFields, fieldNumber: number): string {
+  const values = fields.get(fieldNumber) || [];
+  const value = values.length ? values[values.length - 1] : 0;
+  if (typeof value !== "number") throw new Error(`Field ${fieldNumber} must be a varint`);
+  return value.toString();
+}
+
+function getAddressField(fields: AminoFields, fieldNumber: number, prefix: string): string {
+  return Bech32.encode(prefix, getBytesField(fields, fieldNumber));
+}
+
+/** Decodes a byte slice to base64. Unset byte slices are null in JSON. */
+function getBase64OrNullField(fields: AminoFields, fieldNumber: number): string | null {
+  const data = getBytesField(fields, fieldNumber);
+  return data.length ? toBase64(data) : null;
+}
+
+function getCoinsField(fields: AminoFields, fieldNumber: number): readonly Coin[] {
+  return getBytesFields(fields, fieldNumber).map((encoded) => {
+    const coinFields = decodeFields(encoded);
+    return {
+      denom: getStringField(coinFields, 1),
+      amount: getStringField(coinFields, 2),
+    };
+  });
+}
+
+function startsWith(data: Uint8Array, prefix: Uint8Array): boolean {
+  return equal(data.slice(0, prefix.length), prefix);
+}
+
+/* eslint-disable @typescript-eslint/camelcase */
+function decodeMsg(data: Uint8Array, prefix: string): Msg {
+  const fields = decodeFields(data.slice(4));
+  if (startsWith(data, aminoPrefix("cosmos-sdk/MsgSend"))) {
+    const msg: MsgSend = {
+      type: "cosmos-sdk/MsgSend",
+      value: {
+        from_address: getAddressField(fields, 1, prefix),
+        to_address: getAddressField(fields, 2, prefix),
+        amount: getCoinsField(fields, 3),
+      },
+    };
+    return msg;
+  } else if (startsWith(data, aminoPrefix("wasm/MsgStoreCode"))) {
+    const msg: MsgStoreCode = {
+      type: "wasm/MsgStoreCode",
+      value: {
+        sender: getAddressField(fields, 1, prefix),
+        wasm_byte_code: toBase64(getBytesField(fields, 2)),
+        source: getStringField(fields, 3),
+        builder: getStringField(fields, 4),
+      },
+    };
+    return msg;
+  } else if (startsWith(data, aminoPrefix("wasm/MsgInstantiateContract"))) {
+    const msg: MsgInstantiateContract = {
+      type: "wasm/MsgInstantiateContract",
+      value: {
+        sender: getAddressField(fields, 1, prefix),
+        callback_code_hash: getStringField(fields, 2),
+        code_id: getUintField(fields, 3),
+        label: getStringField(fields, 4),
+        init_msg: toBase64(getBytesField(fields, 5)),
+        init_funds: getCoinsField(fields, 6),
+        callback_sig: getBase64OrNullField(fields, 7),
+      },
+    };
+    return msg;
+  } else if (startsWith(data, aminoPrefix("wasm/MsgExecuteContract"))) {
+    const msg: MsgExecuteContract = {
+      type: "wasm/MsgExecuteContract",
+      value: {
+        sender: getAddressField(fields, 1, prefix),
+        contract: getAddressField(fields, 2, prefix),
+        msg: toBase64(getBytesField(fields, 3)),
+        callback_code_hash: getStringField(fields, 4),
+        sent_funds: getCoinsField(fields, 5),
+        callback_sig: getBase64OrNullField(fields, 6),
+      },
+    };
+    return msg;
+  } else {
+    throw new Error("Unsupported message type. Amino prefix: " + Encoding.toHex(data.slice(0, 4)));
+  }
+}
+
+function decodeFee(data: Uint8Array): StdFee {
+  const fields = decodeFields(data);
+  return {
+    amount: getCoinsField(fields, 1),
+    gas: getUintField(fields, 2),
+  };
+}
+
+function decodeSignature(data: Uint8Array): StdSignature {
+  const fields = decodeFields(data);
+  return {
+    pub_key: decodeAminoPubkey(getBytesField(fields, 1)),
+    signature: toBase64(getBytesField(fields, 2)),
+  };
+}
+/* eslint-enable @typescript-eslint/camelcase */
+
+/**
+ * Decodes a StdTx from Amino binary, i.e. the representation used in blocks and by the
+ * /txs/encode endpoint. This is the inverse of encodeAminoTx.
+ *
+ * @param data The length prefixed Amino encoding of the transaction
+ * @param prefix The bech32 prefix used for the addresses in the messages
+ */
+export function decodeAminoTx(data: Uint8Array, prefix: string): StdTx {
+  const length = decodeUvarint(data, 0);
+  if (length.length + length.value !== data.length) {
+    throw new Error("Length prefix does not match the data length");
+  }
+  const bare = data.slice(length.length);
+  if (!startsWith(bare, aminoPrefix(aminoTypeStdTx))) {
+    throw new Error("Data is not an Amino encoded StdTx");
+  }
+
+  const fields = decodeFields(bare.slice(4));
+  return {
+    msg: getBytesFields(fields, 1).map((encoded) => decodeMsg(encoded, prefix)),
+    fee: decodeFee(getBytesField(fields, 2)),
+    signatures: getBytesFields(fields, 3).map(decodeSignature),
+    memo: getStringField(fields, 4),
+  };
+}
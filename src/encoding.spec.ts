@@ -1 +1,68 @@
-describe("encoding", () => {});
+/* eslint-disable @typescript-eslint/camelcase */
+import { Sha256 } from "@iov/crypto";
+import { Encoding } from "@iov/encoding";
+
+import { aminoPrefix, encodeAminoTx, encodeUvarint } from "./encoding";
+import cosmoshub from "./testdata/cosmoshub.json";
+import response1 from "./testdata/txresponse1.json";
+import response2 from "./testdata/txresponse2.json";
+import response3 from "./testdata/txresponse3.json";
+import wasmtx from "./testdata/wasmtx.json";
+import { StdTx } from "./types";
+
+const { fromBase64, toHex } = Encoding;
+
+describe("encoding", () => {
+  describe("aminoPrefix", () => {
+    it("works for known types", () => {
+      expect(toHex(aminoPrefix("tendermint/PubKeySecp256k1"))).toEqual("eb5ae987");
+      expect(toHex(aminoPrefix("tendermint/PubKeyEd25519"))).toEqual("1624de64");
+      expect(toHex(aminoPrefix("cosmos-sdk/StdTx"))).toEqual("282816a9");
+      expect(toHex(aminoPrefix("cosmos-sdk/MsgSend"))).toEqual("a8a3619a");
+      expect(toHex(aminoPrefix("wasm/MsgStoreCode"))).toEqual("e6943fa4");
+      expect(toHex(aminoPrefix("wasm/MsgInstantiateContract"))).toEqual("d68953a4");
+      expect(toHex(aminoPrefix("wasm/MsgExecuteContract"))).toEqual("1df3648a");
+    });
+  });
+
+  describe("encodeUvarint", () => {
+    it("works", () => {
+      expect(encodeUvarint(0)).toEqual([0x00]);
+      expect(encodeUvarint(127)).toEqual([0x7f]);
+      expect(encodeUvarint(128)).toEqual([0x80, 0x01]);
+      expect(encodeUvarint(300)).toEqual([0xac, 0x02]);
+      expect(encodeUvarint(2 ** 32)).toEqual([0x80, 0x80, 0x80, 0x80, 0x10]);
+    });
+
+    it("throws for negative or unsafe integers", () => {
+      expect(() => encodeUvarint(-1)).toThrowError(/non-negative safe integer/i);
+      expect(() => encodeUvarint(1.5)).toThrowError(/non-negative safe integer/i);
+      expect(() => encodeUvarint(2 ** 53)).toThrowError(/non-negative safe integer/i);
+    });
+  });
+
+  describe("encodeAminoTx", () => {
+    it("works for cosmoshub example", () => {
+      expect(encodeAminoTx(cosmoshub.tx.value)).toEqual(fromBase64(cosmoshub.tx_data));
+    });
+
+    it("works for wasm messages", () => {
+      expect(encodeAminoTx(wasmtx.tx.value)).toEqual(fromBase64(wasmtx.tx_data));
+    });
+
+    it("produces the transaction hash the chain uses", () => {
+      for (const { tx, txhash } of [response1, response2, response3]) {
+        const hash = new Sha256(encodeAminoTx(tx.value)).digest();
+        expect(toHex(hash).toUpperCase()).toEqual(txhash);
+      }
+    });
+
+    it("throws for unsupported message types", () => {
+      const tx: StdTx = {
+        ...cosmoshub.tx.value,
+        msg: [{ type: "cosmos-sdk/MsgMultiSend", value: {} }],
+      };
+      expect(() => encodeAminoTx(tx)).toThrowError(/unsupported message type/i);
+    });
+  });
+});
@@ -1,8 +1,21 @@
-import { Encoding } from "@iov/encoding";
+import { Sha256 } from "@iov/crypto";
+import { Bech32, Encoding } from "@iov/encoding";
 
-import { Msg, StdFee, StdTx } from "./types";
+import { encodeAminoPubkey } from "./pubkey";
+import {
+  Coin,
+  isMsgExecuteContract,
+  isMsgInstantiateContract,
+  isMsgSend,
+  isMsgStoreCode,
+  Msg,
+  StdFee,
+  StdSignature,
+  StdTx,
+} from "./types";
+import { encodeUvarint } from "./varint";
 
-const { toUtf8 } = Encoding;
+const { fromBase64, toUtf8 } = Encoding;
 
 function sortJson(json: any): any {
   if (typeof json !== "object" || json === null) {
@@ -27,15 +40,6 @@ export function marshalTx(tx: StdTx): Uint8Array {
   return Encoding.toUtf8(json);
 }
 
-interface SignJson {
-  readonly account_number: string;
-  readonly chain_id: string;
-  readonly fee: StdFee;
-  readonly memo: string;
-  readonly msgs: readonly Msg[];
-  readonly sequence: string;
-}
-
 export function makeSignBytes(
   msgs: readonly Msg[],
   fee: StdFee,
@@ -44,7 +48,7 @@ export function makeSignBytes(
   accountNumber: number,
   sequence: number,
 ): Uint8Array {
-  const signJson: SignJson = {
+  return serializeSignDoc({
     // eslint-disable-next-line @typescript-eslint/camelcase
     account_number: accountNumber.toString(),
     // eslint-disable-next-line @typescript-eslint/camelcase
@@ -53,9 +57,7 @@ export function makeSignBytes(
     memo: memo,
     msgs: msgs,
     sequence: sequence.toString(),
-  };
-  const signMsg = sortJson(signJson);
-  return toUtf8(JSON.stringify(signMsg));
+  });
 }
 
 /**
@@ -71,3 +73,148 @@ export interface StdSignDoc {
   readonly msgs: readonly Msg[];
   readonly memo: string;
 }
+
+/** Returns the bytes that are signed for a sign doc, i.e. its JSON with sorted keys */
+export function serializeSignDoc(signDoc: StdSignDoc): Uint8Array {
+  return toUtf8(JSON.stringify(sortJson(signDoc)));
+}
+
+/**
+ * Calculates the 4 byte prefix Amino uses to identify a registered concrete type
+ *
+ * @see https://github.com/tendermint/go-amino/blob/v0.15.1/codec.go#L711-L730
+ */
+export function aminoPrefix(typeName: string): Uint8Array {
+  let hash = new Sha256(toUtf8(typeName)).digest();
+  while (hash[0] === 0x00) hash = hash.slice(1);
+  // skip the 3 disambiguation bytes
+  hash = hash.slice(3);
+  while (hash[0] === 0x00) hash = hash.slice(1);
+  return hash.slice(0, 4);
+}
+
+export const aminoTypeStdTx = "cosmos-sdk/StdTx";
+
+/** The Amino wire types used in this codec */
+export enum AminoWireType {
+  Varint = 0,
+  ByteLength = 2,
+}
+
+export { encodeUvarint };
+
+function encodeFieldKey(fieldNumber: number, wireType: AminoWireType): number[] {
+  return encodeUvarint(fieldNumber * 8 + wireType);
+}
+
+/** Encodes a length prefixed field. Nested structs are always encoded, even if empty. */
+function encodeLengthPrefixedField(fieldNumber: number, data: Uint8Array | readonly number[]): number[] {
+  return [...encodeFieldKey(fieldNumber, AminoWireType.ByteLength), ...encodeUvarint(data.length), ...data];
+}
+
+/** Encodes a byte slice field. Amino omits fields with default values, i.e. empty byte slices. */
+function encodeBytesField(fieldNumber: number, data: Uint8Array): number[] {
+  return data.length === 0 ? [] : encodeLengthPrefixedField(fieldNumber, data);
+}
+
+function encodeStringField(fieldNumber: number, value: string): number[] {
+  return encodeBytesField(fieldNumber, toUtf8(value));
+}
+
+function encodeUintField(fieldNumber: number, value: string): number[] {
+  const parsed = Number(value);
+  if (!value.match(/^[0-9]+$/) || !Number.isSafeInteger(parsed)) {
+    throw new Error(`Unsupported unsigned integer value: "${value}"`);
+  }
+  return parsed === 0 ? [] : [...encodeFieldKey(fieldNumber, AminoWireType.Varint), ...encodeUvarint(parsed)];
+}
+
+function encodeAddressField(fieldNumber: number, bech32Address: string): number[] {
+  return encodeBytesField(fieldNumber, Bech32.decode(bech32Address).data);
+}
+
+/** Encodes base64 data that is a byte slice on the Go side. The JSON representation of nil is null. */
+function encodeBase64Field(fieldNumber: number, base64Data: string | null): number[] {
+  return encodeBytesField(fieldNumber, base64Data ? fromBase64(base64Data) : new Uint8Array());
+}
+
+function encodeCoins(fieldNumber: number, coins: readonly Coin[]): number[] {
+  return coins
+    .map(({ denom, amount }) =>
+      encodeLengthPrefixedField(fieldNumber, [
+        ...encodeStringField(1, denom),
+        ...encodeStringField(2, amount),
+      ]),
+    )
+    .reduce((accumulator, encoded) => [...accumulator, ...encoded], []);
+}
+
+function encodeMsgFields(msg: Msg): number[] {
+  if (isMsgSend(msg)) {
+    return [
+      ...encodeAddressField(1, msg.value.from_address),
+      ...encodeAddressField(2, msg.value.to_address),
+      ...encodeCoins(3, msg.value.amount),
+    ];
+  } else if (isMsgStoreCode(msg)) {
+    return [
+      ...encodeAddressField(1, msg.value.sender),
+      ...encodeBase64Field(2, msg.value.wasm_byte_code),
+      ...encodeStringField(3, msg.value.source),
+      ...encodeStringField(4, msg.value.builder),
+    ];
+  } else if (isMsgInstantiateContract(msg)) {
+    return [
+      ...encodeAddressField(1, msg.value.sender),
+      ...encodeStringField(2, msg.value.callback_code_hash),
+      ...encodeUintField(3, msg.value.code_id),
+      ...encodeStringField(4, msg.value.label),
+      ...encodeBase64Field(5, msg.value.init_msg),
+      ...encodeCoins(6, msg.value.init_funds),
+      ...encodeBase64Field(7, msg.value.callback_sig),
+    ];
+  } else if (isMsgExecuteContract(msg)) {
+    return [
+      ...encodeAddressField(1, msg.value.sender),
+      ...encodeAddressField(2, msg.value.contract),
+      ...encodeBase64Field(3, msg.value.msg),
+      ...encodeStringField(4, msg.value.callback_code_hash),
+      ...encodeCoins(5, msg.value.sent_funds),
+      ...encodeBase64Field(6, msg.value.callback_sig),
+    ];
+  } else {
+    throw new Error(`Unsupported message type for Amino encoding: ${msg.type}`);
+  }
+}
+
+function encodeFeeFields(fee: StdFee): number[] {
+  return [...encodeCoins(1, fee.amount), ...encodeUintField(2, fee.gas)];
+}
+
+function encodeSignatureFields(signature: StdSignature): number[] {
+  return [
+    ...encodeBytesField(1, encodeAminoPubkey(signature.pub_key)),
+    ...encodeBase64Field(2, signature.signature),
+  ];
+}
+
+/**
+ * Encodes a StdTx to Amino binary, i.e. the representation used in blocks and by the
+ * /txs/encode endpoint. The transaction hash is the sha256 hash of this encoding.
+ *
+ * Only the message types defined in ./types (except MsgTemplate) are supported.
+ */
+export function encodeAminoTx(tx: StdTx): Uint8Array {
+  const fields = [
+    ...tx.msg
+      .map((msg) => encodeLengthPrefixedField(1, [...aminoPrefix(msg.type), ...encodeMsgFields(msg)]))
+      .reduce((accumulator, encoded) => [...accumulator, ...encoded], []),
+    ...encodeLengthPrefixedField(2, encodeFeeFields(tx.fee)),
+    ...tx.signatures
+      .map((signature) => encodeLengthPrefixedField(3, encodeSignatureFields(signature)))
+      .reduce((accumulator, encoded) => [...accumulator, ...encoded], []),
+    ...encodeStringField(4, tx.memo || ""),
+  ];
+  const bare = [...aminoPrefix(aminoTypeStdTx), ...fields];
+  return new Uint8Array([...encodeUvarint(bare.length), ...bare]);
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { EncryptedFileMap } from "./encryptedfilemap";
+
+describe("EncryptedFileMap", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "encryptedfilemap-"));
+  });
+
+  afterEach(async () => {
+    for (const file of await fs.readdir(dir)) {
+      await fs.unlink(join(dir, file));
+    }
+    await fs.rmdir(dir);
+  });
+
+  it("replaces the file without leaving temporary files", async () => {
+    const path = join(dir, "map.json");
+    const map = new EncryptedFileMap(path, "password");
+    await Promise.all([map.set("a", "1"), map.set("b", "2")]);
+    await map.delete("a");
+
+    expect(await fs.readdir(dir)).toEqual(["map.json"]);
+    const reopened = new EncryptedFileMap(path, "password");
+    expect(await reopened.get("a")).toBeUndefined();
+    expect(await reopened.get("b")).toEqual("2");
+  });
+
+  it("keeps the former file if writing fails", async () => {
+    const path = join(dir, "map.json");
+    const map = new EncryptedFileMap(path, "password");
+    await map.set("a", "1");
+    const content = await fs.readFile(path, "utf8");
+
+    spyOn(fs, "rename").and.rejectWith(new Error("disk full"));
+    await map.set("b", "2").then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/disk full/),
+    );
+    expect(await fs.readdir(dir)).toEqual(["map.json"]);
+    expect(await fs.readFile(path, "utf8")).toEqual(content);
+    expect(await map.get("b")).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+
+import { decryptWithPassword, encryptWithPassword } from "./passwordencryption";
+
+/**
+ * A map of strings that is kept in a file encrypted with a password, see encryptWithPassword.
+ *
+ * The file is read on first access and rewritten on every change. A change is written to a
+ * temporary file first, which then replaces the file, so a crash never leaves a truncated file.
+ */
+export class EncryptedFileMap {
+  private readonly path: string;
+  private readonly password: string;
+  private entries: Map<string, string> | undefined;
+  /** Serializes file access */
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path The file the map is stored in. Created on the first change if it does not exist.
+   */
+  public constructor(path: string, password: string) {
+    this.path = path;
+    this.password = password;
+  }
+
+  public async get(key: string): Promise<string | undefined> {
+    return this.enqueue(async () => (await this.load()).get(key));
+  }
+
+  public async set(key: string, value: string): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      entries.set(key, value);
+      await this.save(entries);
+    });
+  }
+
+  public async delete(key: string): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      if (entries.delete(key)) {
+        await this.save(entries);
+      }
+    });
+  }
+
+  private async enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
+  private async load(): Promise<Map<string, string>> {
+    if (this.entries) return this.entries;
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.path, "utf8");
+    } catch (error) {
+      if (error.code !== "ENOENT") throw error;
+      this.entries = new Map<string, string>();
+      return this.entries;
+    }
+
+    const plaintext = await decryptWithPassword(JSON.parse(content), this.password);
+    this.entries = new Map<string, string>(Object.entries(JSON.parse(plaintext)));
+    return this.entries;
+  }
+
+  private async save(entries: Map<string, string>): Promise<void> {
+    const object: { [key: string]: string } = {};
+    entries.forEach((value, key) => (object[key] = value));
+    const tempPath = `${this.path}.${randomBytes(6).toString("hex")}.tmp`;
+    try {
+      const file = await encryptWithPassword(JSON.stringify(object), this.password);
+      await fs.writeFile(tempPath, JSON.stringify(file), { mode: 0o600 });
+      await fs.rename(tempPath, this.path);
+    } catch (error) {
+      // the change is lost, so read the file again on the next access
+      this.entries = undefined;
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { Encoding } from "@iov/encoding";
+
+import EnigmaUtils from "./enigmautils";
+import vectors from "./testdata/encryption.json";
+import { makeRegistrationCert } from "./testutils.spec";
+import { Transport } from "./transport";
+
+const { fromHex, fromUtf8, toBase64, toHex } = Encoding;
+
+describe("EnigmaUtils", () => {
+  const seed = new Uint8Array(32).fill(0x11);
+  const codeHash = "ab".repeat(32);
+  const consensusIoPubKey = EnigmaUtils.GenerateNewKeyPair().pubkey;
+
+  function makeTransport(ioExchPubkey: Uint8Array): Transport {
+    return {
+      get: async () => ({ result: { ioExchPubkey: toBase64(ioExchPubkey) } }),
+      post: async () => ({}),
+    };
+  }
+
+  /** Decrypts a message encrypted by the given instance */
+  async function decryptInput(enigmautils: EnigmaUtils, encrypted: Uint8Array): Promise<string> {
+    return fromUtf8(await enigmautils.decrypt(encrypted.slice(64), encrypted.slice(0, 32)));
+  }
+
+  describe("consensus IO pubkey", () => {
+    it("is fetched from the node by default", async () => {
+      const transport = makeTransport(consensusIoPubKey);
+      const getSpy = spyOn(transport, "get").and.callThrough();
+      const enigmautils = new EnigmaUtils("", seed, transport);
+
+      const encrypted = await enigmautils.encrypt(codeHash, { a: 1 });
+      await enigmautils.encrypt(codeHash, { a: 2 });
+      expect(getSpy).toHaveBeenCalledTimes(1);
+      expect(getSpy).toHaveBeenCalledWith("/reg/consensus-io-exch-pubkey");
+
+      const offline = new EnigmaUtils("", seed, undefined, consensusIoPubKey);
+      expect(await decryptInput(offline, encrypted)).toEqual(codeHash + `{"a":1}`);
+    });
+
+    it("can be injected", async () => {
+      const transport = makeTransport(consensusIoPubKey);
+      const getSpy = spyOn(transport, "get").and.callThrough();
+      const enigmautils = new EnigmaUtils("", seed, transport, consensusIoPubKey);
+
+      const encrypted = await enigmautils.encrypt(codeHash, { a: 1 });
+      expect(await decryptInput(enigmautils, encrypted)).toEqual(codeHash + `{"a":1}`);
+      expect(getSpy).not.toHaveBeenCalled();
+    });
+
+    it("can be provided", async () => {
+      const transport = makeTransport(consensusIoPubKey);
+      const getSpy = spyOn(transport, "get").and.callThrough();
+      const provider = jasmine.createSpy().and.resolveTo(consensusIoPubKey);
+      const enigmautils = new EnigmaUtils("", seed, transport, provider);
+
+      await enigmautils.encrypt(codeHash, { a: 1 });
+      await enigmautils.encrypt(codeHash, { a: 2 });
+      expect(provider).toHaveBeenCalledTimes(1);
+      expect(getSpy).not.toHaveBeenCalled();
+    });
+
+    it("is taken from the registration certificate", async () => {
+      const transport = makeTransport(consensusIoPubKey);
+      const getSpy = spyOn(transport, "get").and.callThrough();
+      const cert = makeRegistrationCert(consensusIoPubKey);
+      const enigmautils = new EnigmaUtils("", seed, transport, undefined, cert);
+
+      const encrypted = await enigmautils.encrypt(codeHash, { a: 1 });
+      const offline = new EnigmaUtils("", seed, undefined, consensusIoPubKey);
+      expect(await decryptInput(offline, encrypted)).toEqual(codeHash + `{"a":1}`);
+      expect(getSpy).not.toHaveBeenCalled();
+    });
+
+    it("must match the registration certificate", async () => {
+      const otherPubKey = EnigmaUtils.GenerateNewKeyPair().pubkey;
+      const cert = makeRegistrationCert(consensusIoPubKey);
+
+      expect(() => new EnigmaUtils("", seed, undefined, otherPubKey, cert)).toThrowError(
+        /does not match the registration certificate/,
+      );
+      expect(() => new EnigmaUtils("", seed, undefined, consensusIoPubKey, cert)).not.toThrow();
+
+      const provided = new EnigmaUtils("", seed, undefined, async () => otherPubKey, cert);
+      await provided.encrypt(codeHash, {}).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/does not match the registration certificate/),
+      );
+    });
+
+    it("must be 32 bytes long", () => {
+      expect(() => new EnigmaUtils("", seed, undefined, new Uint8Array(31))).toThrowError(/32 bytes/);
+    });
+  });
+
+  describe("fromKeypair", () => {
+    it("uses the keypair instead of a seed", async () => {
+      const fromSeed = new EnigmaUtils("", seed, undefined, consensusIoPubKey);
+      const keypair = EnigmaUtils.GenerateNewKeyPairFromSeed(seed);
+      const fromKeypair = EnigmaUtils.fromKeypair("", keypair, undefined, consensusIoPubKey);
+      expect(fromKeypair.seed).toBeUndefined();
+      expect(await fromKeypair.getPubkey()).toEqual(keypair.pubkey);
+
+      const encrypted = await fromSeed.encrypt(codeHash, { release: {} });
+      expect(await decryptInput(fromKeypair, encrypted)).toEqual(codeHash + JSON.stringify({ release: {} }));
+    });
+
+    it("throws for a pubkey that does not match the privkey", () => {
+      const keypair = EnigmaUtils.GenerateNewKeyPair();
+      const otherKeypair = EnigmaUtils.GenerateNewKeyPair();
+      expect(() =>
+        EnigmaUtils.fromKeypair("", { privkey: keypair.privkey, pubkey: otherKeypair.pubkey }),
+      ).toThrowError(/does not match the privkey/);
+    });
+  });
+
+  describe("encryptWithNonce", () => {
+    it("matches the test vectors", async () => {
+      for (const vector of vectors.vectors) {
+        const enigmautils = new EnigmaUtils(
+          "",
+          fromHex(vector.seed),
+          undefined,
+          fromHex(vector.consensusIoPubKey),
+        );
+        expect(toHex(await enigmautils.getPubkey())).toEqual(vector.walletPubkey);
+
+        const result = await enigmautils.encryptWithNonce(
+          vector.contractCodeHash,
+          vector.msg,
+          fromHex(vector.nonce),
+        );
+        expect(toHex(result.nonce)).toEqual(vector.nonce);
+        expect(toHex(result.txEncryptionKey)).toEqual(vector.txEncryptionKey);
+        expect(toHex(result.encrypted)).toEqual(vector.encrypted);
+
+        const plaintext = await enigmautils.decrypt(
+          fromHex(vector.encrypted).slice(64),
+          fromHex(vector.nonce),
+        );
+        expect(fromUtf8(plaintext)).toEqual(vector.contractCodeHash + JSON.stringify(vector.msg));
+      }
+    });
+
+    it("is deterministic", async () => {
+      const enigmautils = new EnigmaUtils("", seed, undefined, consensusIoPubKey);
+      const nonce = new Uint8Array(32).fill(0x33);
+      const first = await enigmautils.encryptWithNonce(codeHash, { a: 1 }, nonce);
+      const second = await enigmautils.encryptWithNonce(codeHash, { a: 1 }, nonce);
+      expect(second).toEqual(first);
+    });
+
+    it("requires a 32 byte nonce", async () => {
+      const enigmautils = new EnigmaUtils("", seed, undefined, consensusIoPubKey);
+      await enigmautils.encryptWithNonce(codeHash, {}, new Uint8Array(31)).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/32 bytes/),
+      );
+    });
+  });
+
+  describe("encrypt", () => {
+    it("uses a fresh nonce every time", async () => {
+      const enigmautils = new EnigmaUtils("", seed, undefined, consensusIoPubKey);
+      const first = await enigmautils.encrypt(codeHash, { a: 1 });
+      const second = await enigmautils.encrypt(codeHash, { a: 1 });
+      expect(first.slice(0, 32)).not.toEqual(second.slice(0, 32));
+      expect(first.slice(32, 64)).toEqual(await enigmautils.getPubkey());
+      expect(await decryptInput(enigmautils, first)).toEqual(codeHash + `{"a":1}`);
+    });
+  });
+});
@@ -2,17 +2,44 @@ const miscreant = require("miscreant");
 import { sharedKey as x25519, generateKeyPair } from "curve25519-js";
 import { Encoding } from "@iov/encoding";
 const secureRandom = require("secure-random");
-import axios from "axios";
+import { DecryptionError } from "./errors";
+import { extractConsensusIoPubKey } from "./registration";
+import { HttpTransport, Transport } from "./transport";
 const hkdf = require("js-crypto-hkdf");
 
 const cryptoProvider = new miscreant.PolyfillCryptoProvider();
 
+/** The u-coordinate of the x25519 base point, used to compute the pubkey of a privkey */
+const x25519BasePoint = new Uint8Array(32);
+x25519BasePoint[0] = 9;
+
 export interface SecretUtils {
   getPubkey: () => Promise<Uint8Array>;
   decrypt: (ciphertext: Uint8Array, nonce: Uint8Array) => Promise<Uint8Array>;
   encrypt: (contractCodeHash: string, msg: object) => Promise<Uint8Array>;
 }
 
+export interface EncryptionResult {
+  /** The encrypted message as used in wasm messages: nonce(32) || wallet_pubkey(32) || ciphertext */
+  readonly encrypted: Uint8Array;
+  readonly nonce: Uint8Array;
+  /** The AES-SIV key derived from the shared secret of wallet and chain and the nonce */
+  readonly txEncryptionKey: Uint8Array;
+}
+
+/** An x25519 keypair as generated by EnigmaUtils.GenerateNewKeyPair */
+export interface X25519Keypair {
+  readonly privkey: Uint8Array;
+  readonly pubkey: Uint8Array;
+}
+
+/** Returns the consensus IO exchange pubkey of the chain, e.g. from a config file or a trusted node */
+export type ConsensusIoPubKeyProvider = () => Promise<Uint8Array>;
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
 const hkdfSalt: Uint8Array = Uint8Array.from([
   0x00,
   0x00,
@@ -48,23 +75,77 @@ const hkdfSalt: Uint8Array = Uint8Array.from([
   0x6d,
 ]);
 
+/**
+ * Encrypts contract inputs for the enclaves of a Secret Network chain and decrypts their outputs.
+ *
+ * The consensus IO pubkey of the chain can be taken from a registration certificate. The certificate
+ * is not authenticated: the signature of Intel's attestation service is not checked, so it must come
+ * from a trusted source, just like a pubkey that is passed in directly.
+ */
 export default class EnigmaUtils implements SecretUtils {
-  private readonly apiUrl: string;
-  public readonly seed: Uint8Array;
+  private readonly transport: Transport;
+  /** The seed the x25519 keypair was derived from. Undefined when created from a keypair. */
+  public readonly seed: Uint8Array | undefined;
   private readonly privkey: Uint8Array;
   public readonly pubkey: Uint8Array;
+  private readonly consensusIoPubKeyProvider: ConsensusIoPubKeyProvider | undefined;
+  /** The pubkey from the registration certificate, which every other source must match */
+  private readonly certifiedConsensusIoPubKey: Uint8Array | undefined;
   private consensusIoPubKey: Uint8Array = new Uint8Array(); // cache
 
-  public constructor(apiUrl: string, seed?: Uint8Array) {
-    this.apiUrl = apiUrl;
-    if (!seed) {
-      this.seed = EnigmaUtils.GenerateNewSeed();
+  /**
+   * @param apiUrl The URL the consensus IO pubkey is fetched from when no other source is given
+   * @param seed The seed the x25519 keypair is derived from or the keypair itself (see fromKeypair).
+   * A random seed is generated when not set.
+   * @param consensusIoPubKey The consensus IO exchange pubkey of the chain or a function that provides it.
+   * When not set, the pubkey is taken from the registration certificate or fetched from the node.
+   * @param registrationCert The registration certificate of the chain (io-master-cert.der). When set,
+   * the consensus IO pubkey must match the one in the certificate. The certificate is not authenticated.
+   */
+  public constructor(
+    apiUrl: string,
+    seed?: Uint8Array | X25519Keypair,
+    transport: Transport = new HttpTransport(apiUrl),
+    consensusIoPubKey?: Uint8Array | ConsensusIoPubKeyProvider,
+    registrationCert?: Uint8Array,
+  ) {
+    this.transport = transport;
+    this.certifiedConsensusIoPubKey = registrationCert
+      ? extractConsensusIoPubKey(registrationCert)
+      : undefined;
+    if (consensusIoPubKey instanceof Uint8Array) {
+      this.consensusIoPubKey = this.checkConsensusIoPubKey(consensusIoPubKey);
+    } else if (!consensusIoPubKey && this.certifiedConsensusIoPubKey) {
+      this.consensusIoPubKey = this.certifiedConsensusIoPubKey;
+    }
+    this.consensusIoPubKeyProvider = consensusIoPubKey instanceof Uint8Array ? undefined : consensusIoPubKey;
+    if (seed && !(seed instanceof Uint8Array)) {
+      if (!equalBytes(x25519(seed.privkey, x25519BasePoint), seed.pubkey)) {
+        throw new Error("Pubkey does not match the privkey of the keypair");
+      }
+      this.seed = undefined;
+      this.privkey = seed.privkey;
+      this.pubkey = seed.pubkey;
     } else {
-      this.seed = seed;
+      this.seed = seed || EnigmaUtils.GenerateNewSeed();
+      const { privkey, pubkey } = EnigmaUtils.GenerateNewKeyPairFromSeed(this.seed);
+      this.privkey = privkey;
+      this.pubkey = pubkey;
     }
-    const { privkey, pubkey } = EnigmaUtils.GenerateNewKeyPairFromSeed(this.seed);
-    this.privkey = privkey;
-    this.pubkey = pubkey;
+  }
+
+  /**
+   * Creates an instance that encrypts and decrypts with an existing x25519 keypair, e.g. a key
+   * of an earlier session whose seed is not known anymore
+   */
+  public static fromKeypair(
+    apiUrl: string,
+    keypair: X25519Keypair,
+    transport: Transport = new HttpTransport(apiUrl),
+    consensusIoPubKey?: Uint8Array | ConsensusIoPubKeyProvider,
+    registrationCert?: Uint8Array,
+  ): EnigmaUtils {
+    return new EnigmaUtils(apiUrl, keypair, transport, consensusIoPubKey, registrationCert);
   }
 
   public static GenerateNewKeyPair(): { privkey: Uint8Array; pubkey: Uint8Array } {
@@ -85,18 +166,28 @@ export default class EnigmaUtils implements SecretUtils {
       return this.consensusIoPubKey;
     }
 
-    const {
-      data: {
+    let consensusIoPubKey: Uint8Array;
+    if (this.consensusIoPubKeyProvider) {
+      consensusIoPubKey = await this.consensusIoPubKeyProvider();
+    } else {
+      const {
         result: { ioExchPubkey },
-      },
-    } = await axios.get(this.apiUrl + "/reg/consensus-io-exch-pubkey", {
-      headers: { "Content-Type": "application/json" },
-    });
+      } = await this.transport.get("/reg/consensus-io-exch-pubkey");
+      consensusIoPubKey = Encoding.fromBase64(ioExchPubkey);
+    }
 
-    this.consensusIoPubKey = Encoding.fromBase64(ioExchPubkey);
+    this.consensusIoPubKey = this.checkConsensusIoPubKey(consensusIoPubKey);
     return this.consensusIoPubKey;
   }
 
+  private checkConsensusIoPubKey(consensusIoPubKey: Uint8Array): Uint8Array {
+    if (consensusIoPubKey.length !== 32) throw new Error("Consensus IO pubkey must be 32 bytes long");
+    if (this.certifiedConsensusIoPubKey && !equalBytes(consensusIoPubKey, this.certifiedConsensusIoPubKey)) {
+      throw new Error("Consensus IO pubkey does not match the registration certificate");
+    }
+    return consensusIoPubKey;
+  }
+
   private async getTxEncryptionKey(txSenderPrivKey: Uint8Array, nonce: Uint8Array): Promise<Uint8Array> {
     const consensusIoPubKey = await this.getConsensusIoPubKey();
 
@@ -115,6 +206,22 @@ export default class EnigmaUtils implements SecretUtils {
     const nonce = secureRandom(32, {
       type: "Uint8Array",
     });
+    const { encrypted } = await this.encryptWithNonce(contractCodeHash, msg, nonce);
+    return encrypted;
+  }
+
+  /**
+   * Encrypts a message using the given nonce. Encryption is deterministic, so this can be used to
+   * reproduce ciphertexts. Never use the same nonce twice for different messages.
+   *
+   * @param nonce 32 random bytes that are used to derive the tx encryption key
+   */
+  public async encryptWithNonce(
+    contractCodeHash: string,
+    msg: object,
+    nonce: Uint8Array,
+  ): Promise<EncryptionResult> {
+    if (nonce.length !== 32) throw new Error("Nonce must be 32 bytes long");
 
     const txEncryptionKey = await this.getTxEncryptionKey(this.privkey, nonce);
 
@@ -124,8 +231,12 @@ export default class EnigmaUtils implements SecretUtils {
 
     const ciphertext = await siv.seal(plaintext, [new Uint8Array()]);
 
-    // ciphertext = nonce(32) || wallet_pubkey(32) || ciphertext
-    return Uint8Array.from([...nonce, ...this.pubkey, ...ciphertext]);
+    return {
+      // ciphertext = nonce(32) || wallet_pubkey(32) || ciphertext
+      encrypted: Uint8Array.from([...nonce, ...this.pubkey, ...ciphertext]),
+      nonce: nonce,
+      txEncryptionKey: txEncryptionKey,
+    };
   }
 
   public async decrypt(ciphertext: Uint8Array, nonce: Uint8Array): Promise<Uint8Array> {
@@ -137,8 +248,11 @@ export default class EnigmaUtils implements SecretUtils {
 
     const siv = await miscreant.SIV.importKey(txEncryptionKey, "AES-SIV", cryptoProvider);
 
-    const plaintext = await siv.open(ciphertext, [new Uint8Array()]);
-    return plaintext;
+    try {
+      return await siv.open(ciphertext, [new Uint8Array()]);
+    } catch (error) {
+      throw new DecryptionError(`Failed to decrypt ciphertext: ${error.message}`, error);
+    }
   }
 
   getPubkey(): Promise<Uint8Array> {
@@ -0,0 +1,133 @@
+/** An HTTP request that was answered with an error status */
+export class HttpError extends Error {
+  public readonly status: number;
+  /** The error text sent by the server */
+  public readonly errorText: string;
+
+  public constructor(status: number, errorText: string) {
+    super(`${errorText} (HTTP ${status})`);
+    this.name = "HttpError";
+    this.status = status;
+    this.errorText = errorText;
+  }
+}
+
+export class ContractNotFoundError extends Error {
+  /** Bech32 address of the contract */
+  public readonly address: string;
+
+  public constructor(address: string) {
+    super(`No contract found at address "${address}"`);
+    this.name = "ContractNotFoundError";
+    this.address = address;
+  }
+}
+
+/** A smart query that was rejected by the contract */
+export class ContractQueryError extends Error {
+  /** Bech32 address of the contract */
+  public readonly address: string;
+  /** The error returned by the contract */
+  public readonly decryptedMessage: string;
+  /** The encrypted error as returned by the node (base64) */
+  public readonly encryptedMessage: string;
+
+  public constructor(message: string, address: string, decryptedMessage: string, encryptedMessage: string) {
+    super(message);
+    this.name = "ContractQueryError";
+    this.address = address;
+    this.decryptedMessage = decryptedMessage;
+    this.encryptedMessage = encryptedMessage;
+  }
+}
+
+/** A contract call in a transaction or simulation that failed */
+export class ContractExecutionError extends Error {
+  /** The index of the failed message in the transaction */
+  public readonly msgIndex: number;
+  /** The error returned by the contract */
+  public readonly decryptedMessage: string;
+  /** The encrypted error as returned by the node (base64) */
+  public readonly encryptedMessage: string;
+  /** The error that contained the encrypted contract error, e.g. a BroadcastTxError */
+  public readonly cause: Error;
+
+  public constructor(
+    message: string,
+    msgIndex: number,
+    decryptedMessage: string,
+    encryptedMessage: string,
+    cause: Error,
+  ) {
+    super(message);
+    this.name = "ContractExecutionError";
+    this.msgIndex = msgIndex;
+    this.decryptedMessage = decryptedMessage;
+    this.encryptedMessage = encryptedMessage;
+    this.cause = cause;
+  }
+}
+
+/** A transaction that was broadcast but failed */
+export class BroadcastTxError extends Error {
+  public readonly code: number;
+  public readonly codespace: string | undefined;
+  /** Transaction hash (might be used as transaction ID). Guaranteed to be non-empty upper-case hex */
+  public readonly txhash: string;
+  public readonly log: string;
+
+  public constructor(code: number, codespace: string | undefined, txhash: string, log: string) {
+    super(`Error when posting tx ${txhash}. Code: ${code}; Raw log: ${log}`);
+    this.name = "BroadcastTxError";
+    this.code = code;
+    this.codespace = codespace;
+    this.txhash = txhash;
+    this.log = log;
+  }
+}
+
+/** A transaction that was not found in a block within the expected time */
+export class TxTimeoutError extends Error {
+  /** Transaction hash (might be used as transaction ID). Guaranteed to be non-empty upper-case hex */
+  public readonly txhash: string;
+
+  public constructor(txhash: string, timeout: number) {
+    super(`Transaction ${txhash} was not included in a block within ${timeout} ms`);
+    this.name = "TxTimeoutError";
+    this.txhash = txhash;
+  }
+}
+
+/** A query that was rejected because the viewing key is wrong or not set */
+export class ViewingKeyError extends Error {
+  /** Bech32 address of the contract */
+  public readonly address: string;
+
+  public constructor(message: string, address: string) {
+    super(message);
+    this.name = "ViewingKeyError";
+    this.address = address;
+  }
+}
+
+export class DecryptionError extends Error {
+  /** The error thrown by the cipher, if any */
+  public readonly cause: Error | undefined;
+
+  public constructor(message: string, cause?: Error) {
+    super(message);
+    this.name = "DecryptionError";
+    this.cause = cause;
+  }
+}
+
+export class AccountNotFoundError extends Error {
+  /** Bech32 account address */
+  public readonly address: string;
+
+  public constructor(address: string) {
+    super("Account does not exist on chain. Send some tokens there before trying to query nonces.");
+    this.name = "AccountNotFoundError";
+    this.address = address;
+  }
+}
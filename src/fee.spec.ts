@@ -0,0 +1,81 @@
+import { Decimal } from "@iov/encoding";
+
+import { calculateFee, GasPrice } from "./fee";
+
+describe("fee", () => {
+  describe("GasPrice", () => {
+    it("can be constructed", () => {
+      const gasPrice = new GasPrice(Decimal.fromUserInput("3.14", 3), "utest");
+      expect(gasPrice.amount.toString()).toEqual("3.14");
+      expect(gasPrice.denom).toEqual("utest");
+    });
+
+    it("can be created from a string", () => {
+      const gasPrice = GasPrice.fromString("0.25uscrt");
+      expect(gasPrice.amount.toString()).toEqual("0.25");
+      expect(gasPrice.denom).toEqual("uscrt");
+    });
+
+    it("supports integer amounts", () => {
+      const gasPrice = GasPrice.fromString("2ucosm");
+      expect(gasPrice.amount.toString()).toEqual("2");
+      expect(gasPrice.denom).toEqual("ucosm");
+    });
+
+    it("throws for invalid strings", () => {
+      expect(() => GasPrice.fromString("")).toThrowError(/invalid gas price string/i);
+      expect(() => GasPrice.fromString("0.25")).toThrowError(/invalid gas price string/i);
+      expect(() => GasPrice.fromString("uscrt")).toThrowError(/invalid gas price string/i);
+      expect(() => GasPrice.fromString("0.25 uscrt")).toThrowError(/invalid gas price string/i);
+      expect(() => GasPrice.fromString("0.2.5uscrt")).toThrow();
+    });
+  });
+
+  describe("calculateFee", () => {
+    it("multiplies gas limit and gas price", () => {
+      expect(calculateFee(80000, "0.25uscrt")).toEqual({
+        amount: [{ amount: "20000", denom: "uscrt" }],
+        gas: "80000",
+      });
+      expect(calculateFee(200000, GasPrice.fromString("0.025ucosm"))).toEqual({
+        amount: [{ amount: "5000", denom: "ucosm" }],
+        gas: "200000",
+      });
+    });
+
+    it("rounds up to the next full token unit", () => {
+      expect(calculateFee(3, "0.25uscrt")).toEqual({
+        amount: [{ amount: "1", denom: "uscrt" }],
+        gas: "3",
+      });
+      expect(calculateFee(150002, "0.025ucosm")).toEqual({
+        amount: [{ amount: "3751", denom: "ucosm" }],
+        gas: "150002",
+      });
+      expect(calculateFee(39, "0.000000000000000001uscrt")).toEqual({
+        amount: [{ amount: "1", denom: "uscrt" }],
+        gas: "39",
+      });
+    });
+
+    it("works for zero gas and large values without losing precision", () => {
+      expect(calculateFee(0, "0.25uscrt")).toEqual({
+        amount: [{ amount: "0", denom: "uscrt" }],
+        gas: "0",
+      });
+      expect(calculateFee(Number.MAX_SAFE_INTEGER, "1000.5uscrt")).toEqual({
+        amount: [{ amount: "9011702854368361496", denom: "uscrt" }],
+        gas: "9007199254740991",
+      });
+      expect(calculateFee(999, "0.999999999999999999uscrt")).toEqual({
+        amount: [{ amount: "999", denom: "uscrt" }],
+        gas: "999",
+      });
+    });
+
+    it("throws for invalid gas limits", () => {
+      expect(() => calculateFee(-1, "0.25uscrt")).toThrowError(/gas limit must be/i);
+      expect(() => calculateFee(1.5, "0.25uscrt")).toThrowError(/gas limit must be/i);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { Decimal } from "@iov/encoding";
+
+import { StdFee } from "./types";
+
+/** The number of fractional digits a gas price can have */
+const gasPriceFractionalDigits = 18;
+
+/**
+ * The price of a single unit of gas. This is typically a fraction of the smallest fee token unit,
+ * such as 0.25uscrt.
+ */
+export class GasPrice {
+  /**
+   * Parses a gas price formatted as `<amount><denom>`, e.g. `GasPrice.fromString("0.25uscrt")`.
+   */
+  public static fromString(gasPrice: string): GasPrice {
+    const matchResult = gasPrice.match(/^([0-9.]+)([a-z][a-z0-9]*)$/i);
+    if (!matchResult) {
+      throw new Error(`Invalid gas price string: "${gasPrice}"`);
+    }
+    const [, amount, denom] = matchResult;
+    return new GasPrice(Decimal.fromUserInput(amount, gasPriceFractionalDigits), denom);
+  }
+
+  public readonly amount: Decimal;
+  public readonly denom: string;
+
+  public constructor(amount: Decimal, denom: string) {
+    this.amount = amount;
+    this.denom = denom;
+  }
+}
+
+/** The gas limits used for the different operations */
+export interface GasLimits {
+  readonly upload: number;
+  readonly init: number;
+  readonly exec: number;
+  readonly send: number;
+}
+
+export const defaultGasPrice = GasPrice.fromString("0.25uscrt");
+
+export const defaultGasLimits: GasLimits = {
+  upload: 1000000, // one million
+  init: 500000, // 500k
+  exec: 200000, // 200k
+  send: 80000, // 80k
+};
+
+/** Multiplies two non-negative integers given as decimal strings */
+function multiplyDigits(a: string, b: string): string {
+  const result = new Array<number>(a.length + b.length).fill(0);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      const sum = result[i + j + 1] + Number(a[i]) * Number(b[j]);
+      result[i + j + 1] = sum % 10;
+      result[i + j] += Math.floor(sum / 10);
+    }
+  }
+  return result.join("").replace(/^0+(?=[0-9])/, "");
+}
+
+/** Adds one to a non-negative integer given as decimal string */
+function incrementDigits(digits: string): string {
+  const result = digits.split("").map(Number);
+  let i = result.length - 1;
+  while (i >= 0 && result[i] === 9) {
+    result[i] = 0;
+    i--;
+  }
+  if (i < 0) {
+    result.unshift(1);
+  } else {
+    result[i]++;
+  }
+  return result.join("");
+}
+
+/**
+ * Calculates the fee for a gas limit at the given gas price. Fee amounts must be integers,
+ * so the amount is rounded up to the next full unit of the fee token.
+ *
+ * @param gasLimit The maximum amount of gas the transaction may use
+ * @param gasPrice A GasPrice or its string representation, e.g. "0.25uscrt"
+ */
+export function calculateFee(gasLimit: number, gasPrice: GasPrice | string): StdFee {
+  if (!Number.isSafeInteger(gasLimit) || gasLimit < 0) {
+    throw new Error("Gas limit must be a non-negative safe integer");
+  }
+  const { amount, denom } = typeof gasPrice === "string" ? GasPrice.fromString(gasPrice) : gasPrice;
+
+  const productAtomics = multiplyDigits(amount.atomics, gasLimit.toString());
+  const [whole, fractional] = Decimal.fromAtomics(productAtomics, amount.fractionalDigits)
+    .toString()
+    .split(".");
+  return {
+    amount: [{ amount: fractional ? incrementDigits(whole) : whole, denom: denom }],
+    gas: gasLimit.toString(),
+  };
+}
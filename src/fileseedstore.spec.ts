@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { DecryptionError } from "./errors";
+import { FileSeedStore } from "./fileseedstore";
+import { makeRandomAddress } from "./testutils.spec";
+
+describe("FileSeedStore", () => {
+  const seed1 = new Uint8Array(32).fill(0x11);
+  const seed2 = new Uint8Array(32).fill(0x22);
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "seeds-"));
+  });
+
+  afterEach(async () => {
+    for (const file of await fs.readdir(dir)) {
+      await fs.unlink(join(dir, file));
+    }
+    await fs.rmdir(dir);
+  });
+
+  it("works without a file", async () => {
+    const store = new FileSeedStore(join(dir, "seeds.json"), "password");
+    expect(await store.get(makeRandomAddress())).toBeUndefined();
+    await store.delete(makeRandomAddress());
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("persists encrypted seeds", async () => {
+    const path = join(dir, "seeds.json");
+    const address1 = makeRandomAddress();
+    const address2 = makeRandomAddress();
+    const store = new FileSeedStore(path, "password");
+    await Promise.all([store.set(address1, seed1), store.set(address2, seed2)]);
+
+    const content = await fs.readFile(path, "utf8");
+    expect(content).not.toContain("11".repeat(32));
+    expect(content).not.toContain(address1);
+    expect(JSON.parse(content).cipher.algorithm).toEqual("aes-256-gcm");
+
+    const reopened = new FileSeedStore(path, "password");
+    expect(await reopened.get(address1)).toEqual(seed1);
+    expect(await reopened.get(address2)).toEqual(seed2);
+
+    await reopened.delete(address1);
+    expect(await new FileSeedStore(path, "password").get(address1)).toBeUndefined();
+    expect(await new FileSeedStore(path, "password").get(address2)).toEqual(seed2);
+  });
+
+  it("throws a DecryptionError for wrong passwords", async () => {
+    const path = join(dir, "seeds.json");
+    await new FileSeedStore(path, "password").set(makeRandomAddress(), seed1);
+
+    const store = new FileSeedStore(path, "wrong password");
+    await store.get(makeRandomAddress()).then(
+      () => fail("must not resolve"),
+      (error) => {
+        expect(error).toEqual(jasmine.any(DecryptionError));
+        expect(error).toMatch(/Wrong password/);
+      },
+    );
+  });
+});
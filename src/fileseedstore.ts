@@ -0,0 +1,34 @@
+import { Encoding } from "@iov/encoding";
+
+import { EncryptedFileMap } from "./encryptedfilemap";
+import { SeedStore } from "./seedstore";
+
+/**
+ * Keeps hex encoded seeds in a file that is encrypted with a password.
+ *
+ * The file is encrypted like the one of FileViewingKeyStore. It is read on first access and rewritten
+ * on every change.
+ */
+export class FileSeedStore implements SeedStore {
+  private readonly file: EncryptedFileMap;
+
+  /**
+   * @param path The file the seeds are stored in. Created on the first change if it does not exist.
+   */
+  public constructor(path: string, password: string) {
+    this.file = new EncryptedFileMap(path, password);
+  }
+
+  public async get(address: string): Promise<Uint8Array | undefined> {
+    const seed = await this.file.get(address);
+    return seed === undefined ? undefined : Encoding.fromHex(seed);
+  }
+
+  public async set(address: string, seed: Uint8Array): Promise<void> {
+    return this.file.set(address, Encoding.toHex(seed));
+  }
+
+  public async delete(address: string): Promise<void> {
+    return this.file.delete(address);
+  }
+}
@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { DecryptionError } from "./errors";
+import { FileViewingKeyStore } from "./fileviewingkeystore";
+import { makeRandomAddress } from "./testutils.spec";
+
+describe("FileViewingKeyStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "viewingkeys-"));
+  });
+
+  afterEach(async () => {
+    for (const file of await fs.readdir(dir)) {
+      await fs.unlink(join(dir, file));
+    }
+    await fs.rmdir(dir);
+  });
+
+  it("works without file", async () => {
+    const store = new FileViewingKeyStore(join(dir, "keys.json"), "password");
+    expect(await store.get(makeRandomAddress(), makeRandomAddress())).toBeUndefined();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("persists encrypted viewing keys", async () => {
+    const path = join(dir, "keys.json");
+    const address = makeRandomAddress();
+    const contract = makeRandomAddress();
+
+    const store = new FileViewingKeyStore(path, "password");
+    await Promise.all([
+      store.set(address, contract, "api_key_secret"),
+      store.set(contract, address, "api_key_other"),
+    ]);
+
+    const content = await fs.readFile(path, "utf8");
+    expect(content).not.toContain("api_key_secret");
+    expect(content).not.toContain(address);
+    expect(JSON.parse(content).kdf.algorithm).toEqual("scrypt");
+
+    const reopened = new FileViewingKeyStore(path, "password");
+    expect(await reopened.get(address, contract)).toEqual("api_key_secret");
+    expect(await reopened.get(contract, address)).toEqual("api_key_other");
+
+    await reopened.delete(address, contract);
+    expect(await new FileViewingKeyStore(path, "password").get(address, contract)).toBeUndefined();
+  });
+
+  it("throws a DecryptionError for wrong passwords", async () => {
+    const path = join(dir, "keys.json");
+    await new FileViewingKeyStore(path, "password").set(makeRandomAddress(), makeRandomAddress(), "api_key");
+
+    const store = new FileViewingKeyStore(path, "wrong password");
+    await store.get(makeRandomAddress(), makeRandomAddress()).then(
+      () => fail("must not resolve"),
+      (error) => {
+        expect(error).toEqual(jasmine.any(DecryptionError));
+        expect(error).toMatch(/Wrong password/);
+      },
+    );
+  });
+});
@@ -0,0 +1,31 @@
+import { EncryptedFileMap } from "./encryptedfilemap";
+import { makeStoreKey, ViewingKeyStore } from "./viewingkeystore";
+
+/**
+ * Keeps viewing keys in a file that is encrypted with a password.
+ *
+ * The encryption key is derived from the password using scrypt with a random salt, the viewing keys
+ * are encrypted using AES-256-GCM. The file is read on first access and rewritten on every change.
+ */
+export class FileViewingKeyStore implements ViewingKeyStore {
+  private readonly file: EncryptedFileMap;
+
+  /**
+   * @param path The file the viewing keys are stored in. Created on the first change if it does not exist.
+   */
+  public constructor(path: string, password: string) {
+    this.file = new EncryptedFileMap(path, password);
+  }
+
+  public async get(address: string, contractAddress: string): Promise<string | undefined> {
+    return this.file.get(makeStoreKey(address, contractAddress));
+  }
+
+  public async set(address: string, contractAddress: string, viewingKey: string): Promise<void> {
+    return this.file.set(makeStoreKey(address, contractAddress), viewingKey);
+  }
+
+  public async delete(address: string, contractAddress: string): Promise<void> {
+    return this.file.delete(makeStoreKey(address, contractAddress));
+  }
+}
@@ -3,40 +3,122 @@ import * as types from "./types";
 export { logs, types };
 
 export { pubkeyToAddress } from "./address";
-export { unmarshalTx } from "./decoding";
-export { makeSignBytes, marshalTx } from "./encoding";
-export { BroadcastMode, RestClient, TxsResponse } from "./restclient";
+export { makeArbitrarySignDoc, signArbitrary, verifyArbitrary } from "./adr36";
+export { decodeAminoTx, unmarshalTx } from "./decoding";
+export { encodeAminoTx, makeSignBytes, marshalTx, serializeSignDoc, StdSignDoc } from "./encoding";
+export {
+  BroadcastMode,
+  DecryptedTxsResponse,
+  RestClient,
+  TxDecryption,
+  TxsResponse,
+  UndecryptedReason,
+} from "./restclient";
 export {
   Account,
   Block,
   BlockHeader,
+  BlockTx,
   Code,
   CodeDetails,
   Contract,
   ContractDetails,
   CosmWasmClient,
+  GetBlockOptions,
   GetNonceResult,
   IndexedTx,
   PostTxResult,
+  SearchByCodeIdQuery,
+  SearchByContractQuery,
   SearchByHeightQuery,
   SearchByIdQuery,
   SearchBySentFromOrToQuery,
   SearchByTagsQuery,
   SearchTxQuery,
   SearchTxFilter,
+  WaitForTxOptions,
 } from "./cosmwasmclient";
-export { makeSecretNetworkPath as makeCosmoshubPath, Pen, PrehashType, Secp256k1Pen } from "./pen";
-export { decodeBech32Pubkey, encodeBech32Pubkey, encodeSecp256k1Pubkey } from "./pubkey";
-export { findSequenceForSignedTx } from "./sequence";
-export { encodeSecp256k1Signature, decodeSignature } from "./signature";
+export {
+  AccountNotFoundError,
+  BroadcastTxError,
+  ContractExecutionError,
+  ContractNotFoundError,
+  ContractQueryError,
+  DecryptionError,
+  HttpError,
+  TxTimeoutError,
+  ViewingKeyError,
+} from "./errors";
+export { calculateFee, GasLimits, GasPrice } from "./fee";
+export { combineSignatures, createMultisigThresholdPubKey, decodeMultisignature } from "./multisig";
+export { MultisigTx, MultisigTxJson } from "./multisigtx";
+export { OfflineTxBuilder, SignerData } from "./offlinetxbuilder";
+export {
+  Ed25519Pen,
+  makeSecretNetworkEd25519Path,
+  makeSecretNetworkPath as makeCosmoshubPath,
+  Pen,
+  PrehashType,
+  Secp256k1Pen,
+} from "./pen";
+export {
+  decodeAminoPubkey,
+  decodeBech32Pubkey,
+  encodeAminoPubkey,
+  encodeBech32Pubkey,
+  encodeEd25519Pubkey,
+  encodeSecp256k1Pubkey,
+} from "./pubkey";
+export { extractConsensusIoPubKey } from "./registration";
+export {
+  KeyValueStorage,
+  loadOrCreateSeed,
+  LocalStorageSeedStore,
+  MemorySeedStore,
+  SeedStore,
+  seedFromMnemonic,
+  seedFromSignature,
+  seedFromSigner,
+  seedSignData,
+} from "./seedstore";
+export { findSequenceForSignedTx, SequenceManager } from "./sequence";
+export {
+  encodeEd25519Signature,
+  encodeSecp256k1Signature,
+  decodeSignature,
+  verifySignature,
+} from "./signature";
+export {
+  Snip20Allowance,
+  Snip20Client,
+  Snip20ExecuteResult,
+  Snip20TokenInfo,
+  Snip20Transfer,
+  Snip20TransferHistory,
+} from "./snip20client";
 export {
   ExecuteResult,
+  FeeOptions,
   FeeTable,
   InstantiateResult,
+  MsgBatch,
   SigningCallback,
   SigningCosmWasmClient,
   UploadMeta,
   UploadResult,
 } from "./signingcosmwasmclient";
+export {
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  HttpTransportOptions,
+  RequestInterceptor,
+  ResponseInterceptor,
+  Transport,
+} from "./transport";
+export { getSigners, verifySignDoc, verifyStdTx } from "./verification";
+export { MemoryViewingKeyStore, ViewingKeyStore } from "./viewingkeystore";
+export { AccountData, Algo, isOfflineSigner, OfflineSigner, Secp256k1Wallet, SignResponse } from "./wallet";
 import EnigmaUtils from "./enigmautils";
 export { EnigmaUtils };
+export { ConsensusIoPubKeyProvider, EncryptionResult, X25519Keypair } from "./enigmautils";
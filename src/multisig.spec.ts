@@ -0,0 +1,143 @@
+import { Encoding } from "@iov/encoding";
+
+import { rawSecp256k1PubkeyToRawAddress } from "./address";
+import { makeSignBytes } from "./encoding";
+import { combineSignatures, createMultisigThresholdPubKey, decodeMultisignature } from "./multisig";
+import { makeSecretNetworkPath, Secp256k1Pen } from "./pen";
+import { faucet, unused } from "./testutils.spec";
+import { PubKey } from "./types";
+
+const { fromBase64, toHex } = Encoding;
+
+describe("multisig", () => {
+  const mnemonic = "special sign fit simple patrol salute grocery chicken wheat radar tonight ceiling";
+  const member3: PubKey = {
+    type: "tendermint/PubKeySecp256k1",
+    value: "AtQaCqFnshaZQp6rIkvAPyzThvCvXSDO+9AzbxVErqJP",
+  };
+
+  function rawAddress(pubkey: PubKey): string {
+    return toHex(rawSecp256k1PubkeyToRawAddress(fromBase64(pubkey.value)));
+  }
+
+  describe("createMultisigThresholdPubKey", () => {
+    it("sorts the pubkeys by address", () => {
+      const multisig = createMultisigThresholdPubKey([faucet.pubkey, unused.pubkey, member3], 2);
+      expect(multisig.type).toEqual("tendermint/PubKeyMultisigThreshold");
+      expect(multisig.value.threshold).toEqual("2");
+      const addresses = multisig.value.pubkeys.map(rawAddress);
+      expect(addresses).toEqual([...addresses].sort());
+      expect(multisig.value.pubkeys).toEqual(
+        jasmine.arrayWithExactContents([faucet.pubkey, unused.pubkey, member3]),
+      );
+    });
+
+    it("keeps the order with nosort", () => {
+      const multisig = createMultisigThresholdPubKey([member3, faucet.pubkey, unused.pubkey], 3, true);
+      expect(multisig.value.pubkeys).toEqual([member3, faucet.pubkey, unused.pubkey]);
+    });
+
+    it("throws for invalid thresholds", () => {
+      expect(() => createMultisigThresholdPubKey([faucet.pubkey, unused.pubkey], 3)).toThrowError(
+        /exceeds number of keys/,
+      );
+      expect(() => createMultisigThresholdPubKey([faucet.pubkey, unused.pubkey], 0)).toThrowError(
+        /positive integer/,
+      );
+    });
+  });
+
+  describe("combineSignatures", () => {
+    const signBytes = makeSignBytes([], { amount: [], gas: "200000" }, "secret-1", "", 17, 3);
+
+    async function makePens(): Promise<readonly Secp256k1Pen[]> {
+      return Promise.all([0, 1, 2].map((a) => Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(a))));
+    }
+
+    it("encodes the signatures of the members as multisignature", async () => {
+      const pens = await makePens();
+      const multisig = createMultisigThresholdPubKey(
+        pens.map((pen) => ({ type: "tendermint/PubKeySecp256k1", value: Encoding.toBase64(pen.pubkey) })),
+        2,
+        true,
+      );
+      const signature0 = await pens[0].sign(signBytes);
+      const signature2 = await pens[2].sign(signBytes);
+
+      const combined = combineSignatures(multisig, [signature2, signature0]);
+      expect(combined.pub_key).toEqual(multisig);
+      expect(toHex(fromBase64(combined.signature))).toEqual(
+        [
+          // bit array of 3 bits with bits 0 and 2 set
+          "0a05" + "0803" + "1201a0",
+          // the signatures in member order
+          "1240" + toHex(fromBase64(signature0.signature)),
+          "1240" + toHex(fromBase64(signature2.signature)),
+        ].join(""),
+      );
+    });
+
+    it("throws for signatures of non-members and duplicate signatures", async () => {
+      const pens = await makePens();
+      const multisig = createMultisigThresholdPubKey(
+        pens
+          .slice(0, 2)
+          .map((pen) => ({ type: "tendermint/PubKeySecp256k1", value: Encoding.toBase64(pen.pubkey) })),
+        1,
+      );
+      const signature0 = await pens[0].sign(signBytes);
+      const signature2 = await pens[2].sign(signBytes);
+
+      expect(() => combineSignatures(multisig, [signature2])).toThrowError(/not from a member/);
+      expect(() => combineSignatures(multisig, [signature0, signature0])).toThrowError(/more than one/);
+    });
+
+    it("throws for too few signatures", async () => {
+      const pens = await makePens();
+      const multisig = createMultisigThresholdPubKey(
+        pens.map((pen) => ({ type: "tendermint/PubKeySecp256k1", value: Encoding.toBase64(pen.pubkey) })),
+        2,
+      );
+      expect(() => combineSignatures(multisig, [])).toThrowError(/requires 2/);
+      expect(() => combineSignatures(multisig, [])).toThrowError(/Got 0 signatures/);
+    });
+  });
+
+  describe("decodeMultisignature", () => {
+    it("is the inverse of combineSignatures", async () => {
+      const pens = await Promise.all(
+        [0, 1, 2].map((a) => Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(a))),
+      );
+      const multisig = createMultisigThresholdPubKey(
+        pens.map((pen) => ({ type: "tendermint/PubKeySecp256k1", value: Encoding.toBase64(pen.pubkey) })),
+        2,
+        true,
+      );
+      const signBytes = makeSignBytes([], { amount: [], gas: "200000" }, "secret-1", "", 17, 3);
+      const signature0 = await pens[0].sign(signBytes);
+      const signature2 = await pens[2].sign(signBytes);
+
+      const combined = combineSignatures(multisig, [signature0, signature2]);
+      expect(decodeMultisignature(multisig, fromBase64(combined.signature))).toEqual([
+        fromBase64(signature0.signature),
+        undefined,
+        fromBase64(signature2.signature),
+      ]);
+    });
+
+    it("throws for malformed multisignatures", async () => {
+      const multisig = createMultisigThresholdPubKey([faucet.pubkey, unused.pubkey, member3], 1);
+      expect(() => decodeMultisignature(multisig, Encoding.fromHex("0a0508031201"))).toThrowError(
+        /data too short/i,
+      );
+      // bit array of 3 bits with bit 0 set, but no signature
+      expect(() => decodeMultisignature(multisig, Encoding.fromHex("0a050803120180"))).toThrowError(
+        /number of signatures/i,
+      );
+      // bit array of 2 bits
+      expect(() => decodeMultisignature(multisig, Encoding.fromHex("0a050802120180"))).toThrowError(
+        /number of members/i,
+      );
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { Encoding } from "@iov/encoding";
+
+import { rawSecp256k1PubkeyToRawAddress } from "./address";
+import {
+  isMultisigThresholdPubKey,
+  MultisigThresholdPubKey,
+  PubKey,
+  pubkeyType,
+  StdSignature,
+} from "./types";
+import { decodeUvarint, encodeUvarint } from "./varint";
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Creates a k-of-n multisig pubkey from single secp256k1 pubkeys.
+ *
+ * Like `secretcli keys add --multisig`, the pubkeys are sorted by address unless nosort is set.
+ * Different orders result in different multisig addresses.
+ *
+ * @param threshold The number of signatures required
+ */
+export function createMultisigThresholdPubKey(
+  pubkeys: readonly PubKey[],
+  threshold: number,
+  nosort = false,
+): MultisigThresholdPubKey {
+  if (!Number.isInteger(threshold) || threshold < 1) throw new Error("Threshold must be a positive integer");
+  if (threshold > pubkeys.length) {
+    throw new Error(`Threshold k = ${threshold} exceeds number of keys n = ${pubkeys.length}`);
+  }
+  for (const pubkey of pubkeys) {
+    if (pubkey.type !== pubkeyType.secp256k1) throw new Error("Multisig members must be secp256k1 pubkeys");
+  }
+
+  const outPubkeys = nosort
+    ? pubkeys
+    : [...pubkeys].sort((a, b) =>
+        compareBytes(
+          rawSecp256k1PubkeyToRawAddress(Encoding.fromBase64(a.value)),
+          rawSecp256k1PubkeyToRawAddress(Encoding.fromBase64(b.value)),
+        ),
+      );
+  return {
+    type: pubkeyType.multisigThreshold,
+    value: { threshold: threshold.toString(), pubkeys: outPubkeys },
+  };
+}
+
+/** Encodes a length prefixed Amino field */
+function encodeBytesField(fieldNumber: number, data: Uint8Array | readonly number[]): number[] {
+  return [...encodeUvarint(fieldNumber * 8 + 2), ...encodeUvarint(data.length), ...data];
+}
+
+/**
+ * Encodes a tendermint CompactBitArray, in which bit i is the i-th most significant bit of
+ * byte i / 8 and the number of bits used in the last byte is stored separately.
+ */
+function encodeCompactBitArray(bits: readonly boolean[]): number[] {
+  const elems = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => {
+    if (bit) elems[Math.floor(i / 8)] |= 0x80 >> i % 8;
+  });
+  const extraBitsStored = bits.length % 8;
+  return [
+    ...(extraBitsStored === 0 ? [] : [0x08, ...encodeUvarint(extraBitsStored)]),
+    ...(elems.length === 0 ? [] : encodeBytesField(2, elems)),
+  ];
+}
+
+/**
+ * Combines the signatures of the members of a multisig account into the signature of a StdTx
+ * sent by the multisig account.
+ *
+ * The signature is the Amino encoded tendermint Multisignature, i.e. a bit array of the members
+ * that signed followed by their signatures in member order.
+ *
+ * @param signatures The signatures of the members over the sign bytes of the transaction, in any order
+ */
+export function combineSignatures(
+  multisigPubkey: MultisigThresholdPubKey,
+  signatures: readonly StdSignature[],
+): StdSignature {
+  const members = multisigPubkey.value.pubkeys;
+  const memberSignatures = new Array<Uint8Array | undefined>(members.length).fill(undefined);
+  for (const signature of signatures) {
+    const pubkey = signature.pub_key;
+    const index = isMultisigThresholdPubKey(pubkey)
+      ? -1
+      : members.findIndex((member) => member.type === pubkey.type && member.value === pubkey.value);
+    if (index === -1) throw new Error("Signature is not from a member of the multisig pubkey");
+    if (memberSignatures[index]) throw new Error(`Got more than one signature of member ${index}`);
+    memberSignatures[index] = Encoding.fromBase64(signature.signature);
+  }
+
+  const threshold = parseInt(multisigPubkey.value.threshold, 10);
+  const signatureCount = memberSignatures.filter((signature) => !!signature).length;
+  if (signatureCount < threshold) {
+    throw new Error(`Got ${signatureCount} signatures, but the multisig pubkey requires ${threshold}`);
+  }
+
+  const multisignature = [
+    ...encodeBytesField(1, encodeCompactBitArray(memberSignatures.map((signature) => !!signature))),
+    ...memberSignatures
+      .map((signature) => (signature ? encodeBytesField(2, signature) : []))
+      .reduce((accumulator, field) => [...accumulator, ...field], []),
+  ];
+  return {
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    pub_key: multisigPubkey,
+    signature: Encoding.toBase64(new Uint8Array(multisignature)),
+  };
+}
+
+/** Decodes a length prefixed Amino field at offset and returns its data and the offset after it */
+function decodeBytesField(
+  data: Uint8Array,
+  offset: number,
+  fieldNumber: number,
+): { readonly value: Uint8Array; readonly end: number } {
+  if (data[offset] !== fieldNumber * 8 + 2) {
+    throw new Error(`Invalid multisignature. Expected field ${fieldNumber}.`);
+  }
+  const length = decodeUvarint(data, offset + 1);
+  const start = offset + 1 + length.length;
+  const end = start + length.value;
+  if (end > data.length) throw new Error("Invalid multisignature. Data too short.");
+  return { value: data.slice(start, end), end: end };
+}
+
+function decodeCompactBitArray(data: Uint8Array): readonly boolean[] {
+  let extraBitsStored = 0;
+  let offset = 0;
+  if (data[0] === 0x08) {
+    const extra = decodeUvarint(data, 1);
+    extraBitsStored = extra.value;
+    offset = 1 + extra.length;
+  }
+  const elems =
+    offset < data.length ? decodeBytesField(data, offset, 2) : { value: new Uint8Array(), end: offset };
+  if (
+    elems.end !== data.length ||
+    extraBitsStored >= 8 ||
+    (extraBitsStored > 0 && elems.value.length === 0)
+  ) {
+    throw new Error("Invalid multisignature. Malformed bit array.");
+  }
+  const bitCount =
+    extraBitsStored === 0 ? elems.value.length * 8 : (elems.value.length - 1) * 8 + extraBitsStored;
+  return Array.from({ length: bitCount }, (_, i) => (elems.value[Math.floor(i / 8)] & (0x80 >> i % 8)) !== 0);
+}
+
+/**
+ * Decodes the signature of a multisig account into the signatures of its members, i.e. the
+ * inverse of combineSignatures.
+ *
+ * @returns the signature of each member in member order or undefined if the member did not sign
+ */
+export function decodeMultisignature(
+  multisigPubkey: MultisigThresholdPubKey,
+  signature: Uint8Array,
+): readonly (Uint8Array | undefined)[] {
+  const bitArray = decodeBytesField(signature, 0, 1);
+  const bits = decodeCompactBitArray(bitArray.value);
+  if (bits.length !== multisigPubkey.value.pubkeys.length) {
+    throw new Error("Invalid multisignature. Bit array does not match the number of members.");
+  }
+
+  const signatures = new Array<Uint8Array>();
+  let offset = bitArray.end;
+  while (offset < signature.length) {
+    const field = decodeBytesField(signature, offset, 2);
+    signatures.push(field.value);
+    offset = field.end;
+  }
+  if (signatures.length !== bits.filter((bit) => bit).length) {
+    throw new Error("Invalid multisignature. Number of signatures does not match the bit array.");
+  }
+
+  let next = 0;
+  return bits.map((bit) => (bit ? signatures[next++] : undefined));
+}
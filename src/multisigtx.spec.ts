@@ -0,0 +1,186 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import { Encoding } from "@iov/encoding";
+
+import { pubkeyToAddress } from "./address";
+import { CosmWasmClient, PrivateCosmWasmClient } from "./cosmwasmclient";
+import { serializeSignDoc } from "./encoding";
+import { combineSignatures, createMultisigThresholdPubKey } from "./multisig";
+import { MultisigTx } from "./multisigtx";
+import { makeSecretNetworkPath, Secp256k1Pen } from "./pen";
+import { encodeSecp256k1Pubkey } from "./pubkey";
+import { makeRandomAddress, wasmd } from "./testutils.spec";
+import { MsgExecuteContract, MultisigThresholdPubKey } from "./types";
+import { Secp256k1Wallet } from "./wallet";
+
+const { toBase64 } = Encoding;
+
+describe("MultisigTx", () => {
+  const mnemonic = "special sign fit simple patrol salute grocery chicken wheat radar tonight ceiling";
+  const fee = { amount: [{ amount: "5000", denom: "uscrt" }], gas: "200000" };
+  const signerData = { chainId: "secret-1", accountNumber: 17, sequence: 3 };
+
+  async function makePens(): Promise<readonly Secp256k1Pen[]> {
+    return Promise.all([0, 1, 2].map((a) => Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(a))));
+  }
+
+  function makeMultisigPubkey(pens: readonly Secp256k1Pen[]): MultisigThresholdPubKey {
+    return createMultisigThresholdPubKey(
+      pens.map((pen) => encodeSecp256k1Pubkey(pen.pubkey)),
+      2,
+    );
+  }
+
+  function makeExecuteMsg(multisigPubkey: MultisigThresholdPubKey): MsgExecuteContract {
+    return {
+      type: "wasm/MsgExecuteContract",
+      value: {
+        sender: pubkeyToAddress(multisigPubkey, "secret"),
+        contract: makeRandomAddress(),
+        callback_code_hash: "",
+        // nonce || pubkey || ciphertext
+        msg: toBase64(new Uint8Array(100).fill(0xe7)),
+        sent_funds: [],
+        callback_sig: null,
+      },
+    };
+  }
+
+  it("collects signatures from pens and OfflineSigners", async () => {
+    const pens = await makePens();
+    const multisigPubkey = makeMultisigPubkey(pens);
+    const msg = makeExecuteMsg(multisigPubkey);
+    const tx = MultisigTx.create(multisigPubkey, [msg], fee, signerData, "payment");
+    expect(tx.getMissingSigners().length).toEqual(3);
+    expect(tx.isComplete()).toEqual(false);
+
+    // first cosigner
+    const tx1 = await MultisigTx.fromJson(tx.toJson());
+    await tx1.sign(pens[1]);
+    expect(tx1.getSigners()).toEqual([encodeSecp256k1Pubkey(pens[1].pubkey)]);
+
+    // second cosigner
+    const tx2 = await MultisigTx.fromJson(tx1.toJson());
+    const wallet = await Secp256k1Wallet.fromMnemonic(mnemonic, 3);
+    const accounts = await wallet.getAccounts();
+    await tx2.sign(wallet, accounts[2].address);
+    expect(tx2.isComplete()).toEqual(true);
+    expect(tx2.getMissingSigners()).toEqual([encodeSecp256k1Pubkey(pens[0].pubkey)]);
+
+    const coordinated = await MultisigTx.fromJson(tx2.toJson());
+    const stdTx = coordinated.toStdTx();
+    expect(stdTx.msg).toEqual([msg]);
+    expect(stdTx.fee).toEqual(fee);
+    expect(stdTx.memo).toEqual("payment");
+    expect(stdTx.signatures).toEqual([
+      combineSignatures(multisigPubkey, [
+        await pens[1].sign(serializeSignDoc(coordinated.signDoc)),
+        await pens[2].sign(serializeSignDoc(coordinated.signDoc)),
+      ]),
+    ]);
+  });
+
+  it("can be broadcast with CosmWasmClient.postTx", async () => {
+    const pens = await makePens();
+    const multisigPubkey = makeMultisigPubkey(pens);
+    const tx = MultisigTx.create(multisigPubkey, [makeExecuteMsg(multisigPubkey)], fee, signerData);
+    await tx.sign(pens[0]);
+    await tx.sign(pens[1]);
+
+    const client = new CosmWasmClient(wasmd.endpoint);
+    const openedClient = (client as unknown) as PrivateCosmWasmClient;
+    const postSpy = spyOn(openedClient.restClient, "postTx").and.resolveTo({
+      height: "1234",
+      txhash: "3F3B87DDA0DDCC6AC7DCE2AF1BC22E1DDAE4D2C3C44ADB4BB08FE0458A8B2F0C",
+      data: "",
+    });
+    const result = await client.postTx(tx.toStdTx());
+    expect(result.transactionHash).toEqual(
+      "3F3B87DDA0DDCC6AC7DCE2AF1BC22E1DDAE4D2C3C44ADB4BB08FE0458A8B2F0C",
+    );
+    expect(postSpy).toHaveBeenCalledWith(tx.toStdTx());
+  });
+
+  it("throws for incomplete transactions", async () => {
+    const pens = await makePens();
+    const multisigPubkey = makeMultisigPubkey(pens);
+    const tx = MultisigTx.create(multisigPubkey, [], fee, signerData);
+    await tx.sign(pens[0]);
+    expect(() => tx.toStdTx()).toThrowError(/requires 2/);
+  });
+
+  it("rejects signatures of non-members and of other sign docs", async () => {
+    const pens = await makePens();
+    const multisigPubkey = createMultisigThresholdPubKey(
+      pens.slice(0, 2).map((pen) => encodeSecp256k1Pubkey(pen.pubkey)),
+      2,
+    );
+    const tx = MultisigTx.create(multisigPubkey, [], fee, signerData);
+
+    await tx.sign(pens[2]).then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/not from a member/),
+    );
+    const otherTx = MultisigTx.create(multisigPubkey, [], fee, { ...signerData, sequence: 4 });
+    await otherTx.sign(pens[0]);
+    const [signature] = JSON.parse(otherTx.toJson()).signatures;
+    await tx.addSignature(signature).then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/invalid signature/i),
+    );
+    expect(tx.getSigners()).toEqual([]);
+  });
+
+  it("rejects invalid signatures in JSON", async () => {
+    const pens = await makePens();
+    const multisigPubkey = makeMultisigPubkey(pens);
+    const tx = MultisigTx.create(multisigPubkey, [], fee, signerData);
+    await tx.sign(pens[0]);
+    const json = JSON.parse(tx.toJson());
+    const forged = JSON.stringify({ ...json, signDoc: { ...json.signDoc, memo: "forged" } });
+
+    await MultisigTx.fromJson(forged).then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/invalid signature/i),
+    );
+  });
+
+  it("merges the signatures of several cosigners", async () => {
+    const pens = await makePens();
+    const multisigPubkey = makeMultisigPubkey(pens);
+    const tx = MultisigTx.create(multisigPubkey, [makeExecuteMsg(multisigPubkey)], fee, signerData);
+    const cosignerFiles = new Array<string>();
+    for (const pen of [pens[0], pens[2]]) {
+      const cosigned = await MultisigTx.fromJson(tx.toJson());
+      await cosigned.sign(pen);
+      cosignerFiles.push(cosigned.toJson());
+    }
+
+    for (const file of cosignerFiles) tx.merge(await MultisigTx.fromJson(file));
+    expect(tx.getSigners()).toEqual([
+      encodeSecp256k1Pubkey(pens[0].pubkey),
+      encodeSecp256k1Pubkey(pens[2].pubkey),
+    ]);
+    expect(tx.isComplete()).toEqual(true);
+
+    const otherTx = MultisigTx.create(multisigPubkey, [], fee, signerData);
+    expect(() => tx.merge(otherTx)).toThrowError(/different multisig transaction/);
+  });
+
+  it("rejects OfflineSigners that modify the sign doc", async () => {
+    const pens = await makePens();
+    const multisigPubkey = makeMultisigPubkey(pens);
+    const tx = MultisigTx.create(multisigPubkey, [], fee, signerData);
+    const wallet = await Secp256k1Wallet.fromMnemonic(mnemonic);
+    const [account] = await wallet.getAccounts();
+    const signer = {
+      getAccounts: async () => wallet.getAccounts(),
+      sign: async (address: string) =>
+        wallet.sign(address, { ...tx.signDoc, fee: { amount: [], gas: "300000" } }),
+    };
+
+    await tx.sign(signer, account.address).then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/modified the sign doc/),
+    );
+  });
+});
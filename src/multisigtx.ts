@@ -0,0 +1,185 @@
+import equal from "fast-deep-equal";
+
+import { serializeSignDoc, StdSignDoc } from "./encoding";
+import { combineSignatures } from "./multisig";
+import { SignerData } from "./offlinetxbuilder";
+import { Pen } from "./pen";
+import { verifySignature } from "./signature";
+import {
+  isMultisigThresholdPubKey,
+  MultisigThresholdPubKey,
+  Msg,
+  PubKey,
+  StdFee,
+  StdSignature,
+  StdTx,
+} from "./types";
+import { isOfflineSigner, OfflineSigner } from "./wallet";
+
+/** The JSON format a multisig transaction is passed between cosigners in */
+export interface MultisigTxJson {
+  readonly version: 1;
+  readonly multisigPubkey: MultisigThresholdPubKey;
+  readonly signDoc: StdSignDoc;
+  /** The signatures of the members collected so far */
+  readonly signatures: readonly StdSignature[];
+}
+
+/**
+ * A transaction of a multisig account that collects the signatures of the members.
+ *
+ * The coordinator creates the transaction and passes it to the cosigners using toJson. Each cosigner
+ * loads it with fromJson, adds a signature and passes it back. The cosigners can sign one after
+ * another or all at once, in which case the coordinator merges their files. Once enough members
+ * signed, the coordinator broadcasts it:
+ *
+ * ```
+ * const tx = MultisigTx.create(multisigPubkey, msgs, fee, signerData);
+ * // ... pass tx.toJson() to the cosigners ...
+ * for (const file of cosignerFiles) tx.merge(await MultisigTx.fromJson(file));
+ * if (tx.isComplete()) await client.postTx(tx.toStdTx());
+ * ```
+ *
+ * The messages are signed as they are, so wasm messages must be encrypted before, e.g. by adding them
+ * to `new MsgBatch(multisigAddress, new RestClient(apiUrl))`.
+ */
+export class MultisigTx {
+  public static create(
+    multisigPubkey: MultisigThresholdPubKey,
+    msgs: readonly Msg[],
+    fee: StdFee,
+    signerData: SignerData,
+    memo = "",
+  ): MultisigTx {
+    return new MultisigTx(multisigPubkey, {
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      chain_id: signerData.chainId,
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      account_number: signerData.accountNumber.toString(),
+      sequence: signerData.sequence.toString(),
+      fee: fee,
+      msgs: msgs,
+      memo: memo,
+    });
+  }
+
+  /**
+   * Loads a transaction that was saved with toJson.
+   *
+   * Throws if one of the signatures is not a valid signature of the sign doc by a member.
+   */
+  public static async fromJson(json: string): Promise<MultisigTx> {
+    const parsed: MultisigTxJson = JSON.parse(json);
+    if (parsed.version !== 1) throw new Error(`Unsupported multisig transaction version: ${parsed.version}`);
+    if (!isMultisigThresholdPubKey(parsed.multisigPubkey)) throw new Error("Expected a multisig pubkey");
+    const tx = new MultisigTx(parsed.multisigPubkey, parsed.signDoc);
+    for (const signature of parsed.signatures) {
+      await tx.addSignature(signature);
+    }
+    return tx;
+  }
+
+  public readonly multisigPubkey: MultisigThresholdPubKey;
+  public readonly signDoc: StdSignDoc;
+  /** The signatures of the members, indexed by member index */
+  private readonly signatures: (StdSignature | undefined)[];
+
+  private constructor(multisigPubkey: MultisigThresholdPubKey, signDoc: StdSignDoc) {
+    this.multisigPubkey = multisigPubkey;
+    this.signDoc = signDoc;
+    this.signatures = multisigPubkey.value.pubkeys.map(() => undefined);
+  }
+
+  public toJson(): string {
+    const json: MultisigTxJson = {
+      version: 1,
+      multisigPubkey: this.multisigPubkey,
+      signDoc: this.signDoc,
+      signatures: this.signatures.filter((signature): signature is StdSignature => !!signature),
+    };
+    return JSON.stringify(json, null, 2);
+  }
+
+  /**
+   * Adds the signature of a member. A former signature of the same member is replaced.
+   *
+   * Throws if the signature is not a valid signature of the sign doc by a member.
+   */
+  public async addSignature(signature: StdSignature): Promise<void> {
+    const memberIndex = this.getMemberIndex(signature);
+    const valid = await verifySignature(signature, serializeSignDoc(this.signDoc));
+    if (!valid) throw new Error("Invalid signature of the sign doc");
+    this.signatures[memberIndex] = signature;
+  }
+
+  /**
+   * Adds the signatures of another copy of this transaction, e.g. one that a cosigner signed
+   * independently. Signatures of the same member are replaced.
+   *
+   * Throws if the other transaction has a different multisig pubkey or sign doc.
+   */
+  public merge(other: MultisigTx): void {
+    if (!equal(other.multisigPubkey, this.multisigPubkey) || !equal(other.signDoc, this.signDoc)) {
+      throw new Error("Cannot merge signatures of a different multisig transaction");
+    }
+    other.signatures.forEach((signature, memberIndex) => {
+      if (signature) this.signatures[memberIndex] = signature;
+    });
+  }
+
+  /**
+   * Signs the sign doc and adds the signature
+   *
+   * @param signer The pen or OfflineSigner of a member
+   * @param signerAddress The address of the member, required for OfflineSigners
+   */
+  public async sign(signer: Pen | OfflineSigner, signerAddress?: string): Promise<void> {
+    if (isOfflineSigner(signer)) {
+      if (!signerAddress) throw new Error("The address of the signer is required for OfflineSigners");
+      const { signed, signature } = await signer.sign(signerAddress, this.signDoc);
+      if (!equal(signed, this.signDoc)) {
+        throw new Error("Signer modified the sign doc, which is not supported for multisig transactions");
+      }
+      await this.addSignature(signature);
+    } else {
+      await this.addSignature(await signer.sign(serializeSignDoc(this.signDoc)));
+    }
+  }
+
+  /** Returns the pubkeys of the members that signed */
+  public getSigners(): readonly PubKey[] {
+    return this.multisigPubkey.value.pubkeys.filter((_, index) => !!this.signatures[index]);
+  }
+
+  /** Returns the pubkeys of the members that did not sign yet. Use pubkeyToAddress to get their addresses. */
+  public getMissingSigners(): readonly PubKey[] {
+    return this.multisigPubkey.value.pubkeys.filter((_, index) => !this.signatures[index]);
+  }
+
+  /** True if enough members signed to broadcast the transaction */
+  public isComplete(): boolean {
+    return this.getSigners().length >= parseInt(this.multisigPubkey.value.threshold, 10);
+  }
+
+  /** Assembles the transaction with the combined signature. Throws if it is not complete. */
+  public toStdTx(): StdTx {
+    const signatures = this.signatures.filter((signature): signature is StdSignature => !!signature);
+    return {
+      msg: [...this.signDoc.msgs],
+      fee: this.signDoc.fee,
+      memo: this.signDoc.memo,
+      signatures: [combineSignatures(this.multisigPubkey, signatures)],
+    };
+  }
+
+  private getMemberIndex(signature: StdSignature): number {
+    const pubkey = signature.pub_key;
+    const index = isMultisigThresholdPubKey(pubkey)
+      ? -1
+      : this.multisigPubkey.value.pubkeys.findIndex(
+          (member) => member.type === pubkey.type && member.value === pubkey.value,
+        );
+    if (index === -1) throw new Error("Signature is not from a member of the multisig pubkey");
+    return index;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * The parts of secretjs that only work in Node.js because they use modules like fs and crypto.
+ * They are not exported by the main entry point, so that it can be bundled for browsers.
+ *
+ * ```
+ * import { FileSeedStore, FileViewingKeyStore } from "secretjs/build/node";
+ * ```
+ */
+export { FileSeedStore } from "./fileseedstore";
+export { FileViewingKeyStore } from "./fileviewingkeystore";
@@ -0,0 +1,137 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import { Encoding } from "@iov/encoding";
+import { assert } from "@iov/utils";
+
+import EnigmaUtils from "./enigmautils";
+import { OfflineTxBuilder } from "./offlinetxbuilder";
+import { Secp256k1Pen } from "./pen";
+import { findSequenceForSignedTx } from "./sequence";
+import { faucet, makeRandomAddress } from "./testutils.spec";
+import { MsgExecuteContract } from "./types";
+import { OfflineSigner } from "./wallet";
+
+const { fromBase64, fromUtf8 } = Encoding;
+
+describe("OfflineTxBuilder", () => {
+  const signerData = { chainId: "secret-offline-1", accountNumber: 17, sequence: 42 };
+  const fee = {
+    amount: [{ amount: "5000", denom: "uscrt" }],
+    gas: "200000",
+  };
+  const codeHash = "ab".repeat(32);
+  const seed = new Uint8Array(32).fill(0x11);
+  const consensusIoKeypair = EnigmaUtils.GenerateNewKeyPair();
+  const consensusIoPubKey = consensusIoKeypair.pubkey;
+
+  it("signs transactions for the given chain ID, account number and sequence", async () => {
+    const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+    const builder = new OfflineTxBuilder(
+      faucet.address,
+      (signBytes) => pen.sign(signBytes),
+      consensusIoPubKey,
+    );
+    builder.addSend(makeRandomAddress(), [{ amount: "1234", denom: "uscrt" }]);
+
+    const tx = await builder.sign(fee, signerData, "cold wallet");
+    expect(tx.msg).toEqual([...builder.getMsgs()]);
+    expect(tx.fee).toEqual(fee);
+    expect(tx.memo).toEqual("cold wallet");
+    expect(tx.signatures.length).toEqual(1);
+
+    const sequence = await findSequenceForSignedTx(
+      { type: "cosmos-sdk/StdTx", value: tx },
+      signerData.chainId,
+      signerData.accountNumber,
+      signerData.sequence + 1,
+      signerData.sequence,
+    );
+    expect(sequence).toEqual(signerData.sequence);
+  });
+
+  it("encrypts wasm messages with the given consensus IO pubkey and seed", async () => {
+    const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+    const builder = new OfflineTxBuilder(
+      faucet.address,
+      (signBytes) => pen.sign(signBytes),
+      consensusIoPubKey,
+      seed,
+    );
+    const contractAddress = makeRandomAddress();
+    await builder.addExecute(contractAddress, { release: {} }, [], codeHash);
+    const tx = await builder.sign(fee, signerData);
+
+    const executeMsg = tx.msg[0] as MsgExecuteContract;
+    expect(executeMsg.value.contract).toEqual(contractAddress);
+    const encrypted = fromBase64(executeMsg.value.msg);
+    const enigmautils = new EnigmaUtils("", seed, undefined, consensusIoPubKey);
+    expect(encrypted.slice(32, 64)).toEqual(await enigmautils.getPubkey());
+    expect(builder.getNonce(0)).toEqual(encrypted.slice(0, 32));
+
+    // encryption is symmetric, so the sender can decrypt its own message
+    const plaintext = await enigmautils.decrypt(encrypted.slice(64), encrypted.slice(0, 32));
+    expect(fromUtf8(plaintext)).toEqual(codeHash + JSON.stringify({ release: {} }));
+  });
+
+  it("exposes the seed the results can be decrypted with", async () => {
+    const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+    const builder = new OfflineTxBuilder(
+      faucet.address,
+      (signBytes) => pen.sign(signBytes),
+      consensusIoPubKey,
+    );
+    await builder.addExecute(makeRandomAddress(), { release: {} }, [], codeHash);
+    const nonce = builder.getNonce(0);
+    assert(nonce, "Nonce expected");
+    const walletPubkey = fromBase64((builder.getMsgs()[0] as MsgExecuteContract).value.msg).slice(32, 64);
+
+    // the chain encrypts the result with the shared key of its consensus IO key and the wallet key
+    const chain = EnigmaUtils.fromKeypair("", consensusIoKeypair, undefined, walletPubkey);
+    const result = (await chain.encryptWithNonce("", { balance: "1234" }, nonce)).encrypted.slice(64);
+
+    const wallet = new EnigmaUtils("", builder.seed, undefined, consensusIoPubKey);
+    expect(fromUtf8(await wallet.decrypt(result, nonce))).toEqual(JSON.stringify({ balance: "1234" }));
+  });
+
+  it("fails for wasm messages without code hash", async () => {
+    const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+    const builder = new OfflineTxBuilder(
+      faucet.address,
+      (signBytes) => pen.sign(signBytes),
+      consensusIoPubKey,
+    );
+    await builder.addExecute(makeRandomAddress(), { release: {} }).then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/offline/),
+    );
+    await builder.addInstantiate(1, { verifier: faucet.address }, "my contract").then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/offline/),
+    );
+  });
+
+  it("works with an OfflineSigner", async () => {
+    const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+    const signer: OfflineSigner = {
+      getAccounts: async () => [{ address: faucet.address, algo: "secp256k1", pubkey: pen.pubkey }],
+      sign: async (_address, signDoc) => ({
+        signed: signDoc,
+        signature: await pen.sign(new Uint8Array()),
+      }),
+    };
+    const signSpy = spyOn(signer, "sign").and.callThrough();
+
+    const builder = new OfflineTxBuilder(faucet.address, signer, consensusIoPubKey);
+    await builder.addInstantiate(1, { verifier: faucet.address }, "my contract", [], codeHash);
+    const tx = await builder.sign(fee, signerData);
+
+    expect(tx.msg).toEqual([...builder.getMsgs()]);
+    expect(signSpy).toHaveBeenCalledWith(faucet.address, {
+      chain_id: signerData.chainId,
+      account_number: "17",
+      sequence: "42",
+      fee: fee,
+      msgs: [...builder.getMsgs()],
+      memo: "",
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import EnigmaUtils from "./enigmautils";
+import { RestClient } from "./restclient";
+import { MsgBatch, SigningCallback, signTx } from "./signingcosmwasmclient";
+import { Transport } from "./transport";
+import { StdFee, StdTx } from "./types";
+import { OfflineSigner } from "./wallet";
+
+/** The chain and account data a transaction is signed for */
+export interface SignerData {
+  readonly chainId: string;
+  readonly accountNumber: number;
+  readonly sequence: number;
+}
+
+/** Rejects every request, so that anything that would need a node fails loudly */
+const offlineTransport: Transport = {
+  get: async (path: string) => {
+    throw new Error(`Cannot get ${path} offline. Pass the contract code hash explicitly.`);
+  },
+  post: async (path: string) => {
+    throw new Error(`Cannot post to ${path} offline`);
+  },
+};
+
+/**
+ * Builds and signs transactions without a connection to a node, e.g. on a cold wallet.
+ *
+ * Everything that is usually fetched from the chain is passed in explicitly: the consensus IO pubkey
+ * for encryption, the code hashes of the contracts and the chain ID, account number and sequence
+ * for signing. The signed transaction can be broadcast later using CosmWasmClient.postTx.
+ *
+ * Wasm messages must be added with their code hash, e.g. `addExecute(address, msg, [], codeHash)`.
+ */
+export class OfflineTxBuilder extends MsgBatch {
+  /** The seed of the key wasm messages are encrypted with. Store it to decrypt the results and errors. */
+  public readonly seed: Uint8Array;
+  private readonly signerAddress: string;
+  private readonly signer: SigningCallback | OfflineSigner;
+
+  /**
+   * @param senderAddress The address that signs the transaction
+   * @param signer A signing callback or an OfflineSigner that holds the key of the sender address
+   * @param consensusIoPubKey The consensus IO exchange pubkey of the chain the transaction is sent to
+   * @param seed The seed of the key used to encrypt wasm messages. A random seed is used when not set.
+   */
+  public constructor(
+    senderAddress: string,
+    signer: SigningCallback | OfflineSigner,
+    consensusIoPubKey: Uint8Array,
+    seed?: Uint8Array,
+  ) {
+    const encryptionSeed = seed || EnigmaUtils.GenerateNewSeed();
+    const restClient = new RestClient("", undefined, undefined, offlineTransport);
+    restClient.enigmautils = new EnigmaUtils("", encryptionSeed, offlineTransport, consensusIoPubKey);
+    super(senderAddress, restClient);
+
+    this.seed = encryptionSeed;
+    this.signerAddress = senderAddress;
+    this.signer = signer;
+  }
+
+  /** Signs a transaction containing all messages added so far */
+  public async sign(fee: StdFee, signerData: SignerData, memo = ""): Promise<StdTx> {
+    const { chainId, accountNumber, sequence } = signerData;
+    return signTx(
+      this.signer,
+      this.signerAddress,
+      [...this.getMsgs()],
+      fee,
+      chainId,
+      memo,
+      accountNumber,
+      sequence,
+    );
+  }
+}
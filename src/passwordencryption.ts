@@ -0,0 +1,93 @@
+import { Encoding } from "@iov/encoding";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+
+import { DecryptionError } from "./errors";
+
+/** The format of a password encrypted file. Binary values are base64 encoded. */
+export interface PasswordEncryptedFile {
+  readonly version: 1;
+  readonly kdf: {
+    readonly algorithm: "scrypt";
+    readonly salt: string;
+    readonly cost: number;
+    readonly blockSize: number;
+    readonly parallelization: number;
+  };
+  readonly cipher: {
+    readonly algorithm: "aes-256-gcm";
+    readonly iv: string;
+    readonly tag: string;
+  };
+  /** The encrypted content */
+  readonly ciphertext: string;
+}
+
+const scryptOptions = { cost: 2 ** 15, blockSize: 8, parallelization: 1 };
+
+async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  options: { readonly cost: number; readonly blockSize: number; readonly parallelization: number },
+): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    scrypt(
+      password,
+      salt,
+      32,
+      {
+        N: options.cost,
+        r: options.blockSize,
+        p: options.parallelization,
+        maxmem: 256 * options.cost * options.blockSize,
+      },
+      (error, key) => (error ? reject(error) : resolve(key)),
+    ),
+  );
+}
+
+/**
+ * Encrypts a string with a password.
+ *
+ * The encryption key is derived from the password using scrypt with a random salt, the plaintext
+ * is encrypted using AES-256-GCM.
+ */
+export async function encryptWithPassword(
+  plaintext: string,
+  password: string,
+): Promise<PasswordEncryptedFile> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await deriveKey(password, salt, scryptOptions);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return {
+    version: 1,
+    kdf: { algorithm: "scrypt", salt: Encoding.toBase64(salt), ...scryptOptions },
+    cipher: {
+      algorithm: "aes-256-gcm",
+      iv: Encoding.toBase64(iv),
+      tag: Encoding.toBase64(cipher.getAuthTag()),
+    },
+    ciphertext: Encoding.toBase64(ciphertext),
+  };
+}
+
+/**
+ * Decrypts a file created by encryptWithPassword.
+ *
+ * @throws DecryptionError if the password is wrong or the file was modified
+ */
+export async function decryptWithPassword(file: PasswordEncryptedFile, password: string): Promise<string> {
+  if (file.version !== 1) throw new Error(`Unsupported file version: ${file.version}`);
+  const key = await deriveKey(password, Encoding.fromBase64(file.kdf.salt), file.kdf);
+  const decipher = createDecipheriv("aes-256-gcm", key, Encoding.fromBase64(file.cipher.iv));
+  decipher.setAuthTag(Encoding.fromBase64(file.cipher.tag));
+  try {
+    return Buffer.concat([decipher.update(Encoding.fromBase64(file.ciphertext)), decipher.final()]).toString(
+      "utf8",
+    );
+  } catch (error) {
+    throw new DecryptionError("Wrong password or corrupted file", error);
+  }
+}
@@ -1,7 +1,7 @@
-import { Secp256k1, Secp256k1Signature, Sha256 } from "@iov/crypto";
+import { Ed25519, Secp256k1, Secp256k1Signature, Sha256 } from "@iov/crypto";
 import { Encoding } from "@iov/encoding";
 
-import { Secp256k1Pen } from "./pen";
+import { Ed25519Pen, makeSecretNetworkEd25519Path, Secp256k1Pen } from "./pen";
 import { decodeSignature } from "./signature";
 
 const { fromHex } = Encoding;
@@ -45,3 +45,68 @@ describe("Sec256k1Pen", () => {
     });
   });
 });
+
+describe("Ed25519Pen", () => {
+  const mnemonic = "special sign fit simple patrol salute grocery chicken wheat radar tonight ceiling";
+  // Test vector 1 of RFC 8032, section 7.1
+  const privkey = fromHex("9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60");
+  const pubkey = fromHex("d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a");
+
+  describe("fromMnemonic", () => {
+    it("derives different keys for different accounts", async () => {
+      const pen0 = await Ed25519Pen.fromMnemonic(mnemonic);
+      const pen1 = await Ed25519Pen.fromMnemonic(mnemonic, makeSecretNetworkEd25519Path(1));
+      expect(pen0.pubkey.length).toEqual(32);
+      expect(pen0.pubkey).toEqual(
+        (await Ed25519Pen.fromMnemonic(mnemonic, makeSecretNetworkEd25519Path(0))).pubkey,
+      );
+      expect(pen1.pubkey).not.toEqual(pen0.pubkey);
+    });
+  });
+
+  describe("fromPrivkey", () => {
+    it("works for 32 byte private keys", async () => {
+      const pen = await Ed25519Pen.fromPrivkey(privkey);
+      expect(pen.pubkey).toEqual(pubkey);
+    });
+
+    it("works for private keys of priv_validator_key.json", async () => {
+      const pen = await Ed25519Pen.fromPrivkey(new Uint8Array([...privkey, ...pubkey]));
+      expect(pen.pubkey).toEqual(pubkey);
+    });
+
+    it("throws for private keys of the wrong length or with a wrong pubkey", async () => {
+      await Ed25519Pen.fromPrivkey(privkey.slice(1)).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/must be 32 or 64 bytes long/),
+      );
+      await Ed25519Pen.fromPrivkey(new Uint8Array([...privkey, ...privkey])).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/does not match/),
+      );
+    });
+  });
+
+  describe("sign", () => {
+    it("creates correct signatures", async () => {
+      const pen = await Ed25519Pen.fromPrivkey(privkey);
+      const signature = await pen.sign(new Uint8Array([]));
+      expect(signature).toEqual({
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        pub_key: { type: "tendermint/PubKeyEd25519", value: Encoding.toBase64(pubkey) },
+        signature: Encoding.toBase64(
+          fromHex(
+            "e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b",
+          ),
+        ),
+      });
+    });
+
+    it("supports prehashing", async () => {
+      const pen = await Ed25519Pen.fromMnemonic(mnemonic);
+      const data = Encoding.toAscii("foo bar");
+      const { signature } = decodeSignature(await pen.sign(data, "sha256"));
+      expect(await Ed25519.verifySignature(signature, new Sha256(data).digest(), pen.pubkey)).toEqual(true);
+    });
+  });
+});
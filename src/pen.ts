@@ -1,5 +1,7 @@
 import {
   Bip39,
+  Ed25519,
+  Ed25519Keypair,
   EnglishMnemonic,
   Secp256k1,
   Sha256,
@@ -8,8 +10,9 @@ import {
   Slip10Curve,
   Slip10RawIndex,
 } from "@iov/crypto";
+import { Encoding } from "@iov/encoding";
 
-import { encodeSecp256k1Signature } from "./signature";
+import { encodeEd25519Signature, encodeSecp256k1Signature } from "./signature";
 import { StdSignature } from "./types";
 
 export type PrehashType = "sha256" | "sha512" | null;
@@ -56,6 +59,20 @@ export function makeSecretNetworkPath(a: number): readonly Slip10RawIndex[] {
   ];
 }
 
+/**
+ * The Secret Network derivation path for ed25519 keys in the form `m/44'/529'/0'/0'/a'`
+ * with 0-based account index `a`. SLIP-0010 only supports hardened derivation for ed25519.
+ */
+export function makeSecretNetworkEd25519Path(a: number): readonly Slip10RawIndex[] {
+  return [
+    Slip10RawIndex.hardened(44),
+    Slip10RawIndex.hardened(529),
+    Slip10RawIndex.hardened(0),
+    Slip10RawIndex.hardened(0),
+    Slip10RawIndex.hardened(a),
+  ];
+}
+
 export class Secp256k1Pen implements Pen {
   public static async fromMnemonic(
     mnemonic: string,
@@ -85,3 +102,50 @@ export class Secp256k1Pen implements Pen {
     return encodeSecp256k1Signature(this.pubkey, fixedLengthSignature);
   }
 }
+
+/**
+ * A pen for ed25519 keys, e.g. the consensus keys of validators
+ */
+export class Ed25519Pen implements Pen {
+  public static async fromMnemonic(
+    mnemonic: string,
+    hdPath: readonly Slip10RawIndex[] = makeSecretNetworkEd25519Path(0),
+  ): Promise<Ed25519Pen> {
+    const seed = await Bip39.mnemonicToSeed(new EnglishMnemonic(mnemonic));
+    const { privkey } = Slip10.derivePath(Slip10Curve.Ed25519, seed, hdPath);
+    return Ed25519Pen.fromPrivkey(privkey);
+  }
+
+  /**
+   * Creates a pen from a 32 byte private key or from the 64 byte private key || pubkey
+   * representation tendermint uses in priv_validator_key.json
+   */
+  public static async fromPrivkey(privkey: Uint8Array): Promise<Ed25519Pen> {
+    if (privkey.length !== 32 && privkey.length !== 64) {
+      throw new Error("Ed25519 private key must be 32 or 64 bytes long");
+    }
+    const keypair = await Ed25519.makeKeypair(privkey.slice(0, 32));
+    if (privkey.length === 64 && Encoding.toHex(privkey.slice(32)) !== Encoding.toHex(keypair.pubkey)) {
+      throw new Error("Ed25519 private key does not match the pubkey it contains");
+    }
+    return new Ed25519Pen(keypair);
+  }
+
+  public readonly pubkey: Uint8Array;
+  private readonly keypair: Ed25519Keypair;
+
+  private constructor(keypair: Ed25519Keypair) {
+    this.keypair = keypair;
+    this.pubkey = keypair.pubkey;
+  }
+
+  /**
+   * Creates and returns a signature. Unlike secp256k1, ed25519 signs the sign bytes
+   * themselves, so no prehashing is done by default.
+   */
+  public async sign(signBytes: Uint8Array, prehashType: PrehashType = null): Promise<StdSignature> {
+    const message = prehash(signBytes, prehashType);
+    const signature = await Ed25519.createSignature(message, this.keypair);
+    return encodeEd25519Signature(this.pubkey, signature);
+  }
+}
@@ -1,9 +1,65 @@
 import { Encoding } from "@iov/encoding";
 
-import { decodeBech32Pubkey, encodeBech32Pubkey, encodeSecp256k1Pubkey } from "./pubkey";
-import { PubKey } from "./types";
+import {
+  decodeAminoPubkey,
+  decodeBech32Pubkey,
+  encodeAminoPubkey,
+  encodeBech32Pubkey,
+  encodeEd25519Pubkey,
+  encodeSecp256k1Pubkey,
+} from "./pubkey";
+import { MultisigThresholdPubKey, PubKey } from "./types";
 
-const { fromBase64 } = Encoding;
+const { fromBase64, fromHex, toHex } = Encoding;
+
+const member1: PubKey = {
+  type: "tendermint/PubKeySecp256k1",
+  value: "A08EGB7ro1ORuFhjOnZcSgwYlpe0DSFjVNUIkNNQxwKQ",
+};
+const member2: PubKey = {
+  type: "tendermint/PubKeySecp256k1",
+  value: "ArkCaFUJ/IH+vKBmNRCdUVl3mCAhbopk9jjW4Ko4OfRQ",
+};
+const multisig: MultisigThresholdPubKey = {
+  type: "tendermint/PubKeyMultisigThreshold",
+  value: { threshold: "2", pubkeys: [member1, member2] },
+};
+/** prefix, threshold 2, then each member as length prefixed field 2 */
+const multisigAmino = [
+  "22c1f7e2",
+  "0802",
+  "1226",
+  "eb5ae98721" + toHex(fromBase64(member1.value)),
+  "1226",
+  "eb5ae98721" + toHex(fromBase64(member2.value)),
+].join("");
+
+// wasmd keys add test1
+// wasmd keys add test2
+// wasmd keys add test3
+// wasmd keys add testgroup1 --multisig=test1,test2,test3 --multisig-threshold 2
+const test1: PubKey = {
+  type: "tendermint/PubKeySecp256k1",
+  value: "A4y1mO5UEw00+OCBjneHqgYTmg4tACbK22YrVc8WhZpn",
+};
+const test2: PubKey = {
+  type: "tendermint/PubKeySecp256k1",
+  value: "ApBvG9lRbIzTtSY5MiyAG/hyTB+l6HjA4yub1sC7iw9o",
+};
+const test3: PubKey = {
+  type: "tendermint/PubKeySecp256k1",
+  value: "A8yTUZ1htobabw6M/5Qx41a0X5EGPtb4H3nd2JiFiADz",
+};
+const testgroup1Bech32 =
+  "wasmpub1ytql0csgqgfzd666axrjzquvkkvwu4qnp5603cyp3emc02sxzwdqutgqym9dke3t2h83dpv6vufzd666axrjzq5sdudaj5tv3nfm2f3exgkgqxlcwfxplf0g0rqwx2um6mqthzc0dqfzd666axrjzq7vjdge6cdksmdx7r5vl72rrc6kk30ezp376mup77wamzvgtzqq7v7aysdd";
+
+/** A validator consensus pubkey */
+const consensusPubkey: PubKey = {
+  type: "tendermint/PubKeyEd25519",
+  value: "pE5AfL6QGBOLr3ytN4dpTPo+akPiMSnp8j+WFm9p2i8=",
+};
+const consensusPubkeyBech32 =
+  "secretvalconspub1zcjduepq538yql97jqvp8za00jkn0pmffnaru6jrugcjn60j87tpvmmfmghsy5m4rg";
 
 describe("pubkey", () => {
   describe("encodeSecp256k1Pubkey", () => {
@@ -23,6 +79,18 @@ describe("pubkey", () => {
     });
   });
 
+  describe("encodeEd25519Pubkey", () => {
+    it("encodes a pubkey", () => {
+      const pubkey = fromBase64("pE5AfL6QGBOLr3ytN4dpTPo+akPiMSnp8j+WFm9p2i8=");
+      expect(encodeEd25519Pubkey(pubkey)).toEqual(consensusPubkey);
+    });
+
+    it("throws for pubkeys of the wrong length", () => {
+      const pubkey = fromBase64("AtQaCqFnshaZQp6rIkvAPyzThvCvXSDO+9AzbxVErqJP");
+      expect(() => encodeEd25519Pubkey(pubkey)).toThrowError(/must be 32 bytes long/i);
+    });
+  });
+
   describe("decodeBech32Pubkey", () => {
     it("works", () => {
       expect(
@@ -41,6 +109,43 @@ describe("pubkey", () => {
         value: "A6lihrEs3PEFCu8m01ebcas3KjEVAjDIEmU7P9ED3PFx",
       });
     });
+
+    it("works for validator consensus pubkeys", () => {
+      expect(decodeBech32Pubkey(consensusPubkeyBech32)).toEqual(consensusPubkey);
+    });
+
+    it("works for multisig", () => {
+      expect(decodeBech32Pubkey(testgroup1Bech32)).toEqual({
+        type: "tendermint/PubKeyMultisigThreshold",
+        value: {
+          threshold: "2",
+          pubkeys: [test1, test2, test3],
+        },
+      });
+    });
+  });
+
+  describe("decodeAminoPubkey", () => {
+    it("works for multisig", () => {
+      expect(decodeAminoPubkey(fromHex(multisigAmino))).toEqual(multisig);
+    });
+
+    it("throws for invalid multisig pubkeys", () => {
+      expect(() => decodeAminoPubkey(fromHex(multisigAmino.slice(0, -2)))).toThrowError(/data too short/i);
+      expect(() => decodeAminoPubkey(fromHex("22c1f7e2" + "1226"))).toThrowError(/expected threshold/i);
+    });
+  });
+
+  describe("encodeAminoPubkey", () => {
+    it("works for ed25519", () => {
+      expect(toHex(encodeAminoPubkey(consensusPubkey))).toEqual(
+        "1624de6420" + "a44e407cbe9018138baf7cad3787694cfa3e6a43e23129e9f23f96166f69da2f",
+      );
+    });
+
+    it("works for multisig", () => {
+      expect(toHex(encodeAminoPubkey(multisig))).toEqual(multisigAmino);
+    });
   });
 
   describe("encodeBech32Pubkey", () => {
@@ -53,5 +158,17 @@ describe("pubkey", () => {
         "cosmospub1addwnpepqd8sgxq7aw348ydctp3n5ajufgxp395hksxjzc6565yfp56scupfqhlgyg5",
       );
     });
+
+    it("works for validator consensus pubkeys", () => {
+      expect(encodeBech32Pubkey(consensusPubkey, "secretvalconspub")).toEqual(consensusPubkeyBech32);
+    });
+
+    it("works for multisig", () => {
+      const testgroup1: MultisigThresholdPubKey = {
+        type: "tendermint/PubKeyMultisigThreshold",
+        value: { threshold: "2", pubkeys: [test1, test2, test3] },
+      };
+      expect(encodeBech32Pubkey(testgroup1, "wasmpub")).toEqual(testgroup1Bech32);
+    });
   });
 });
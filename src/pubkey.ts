@@ -1,7 +1,12 @@
-import { Bech32, Encoding } from "@iov/encoding";
+import { Encoding } from "@iov/encoding";
+import bech32 from "bech32";
 import equal from "fast-deep-equal";
 
-import { PubKey, pubkeyType } from "./types";
+import { isMultisigThresholdPubKey, MultisigThresholdPubKey, PubKey, pubkeyType } from "./types";
+import { decodeUvarint, encodeUvarint } from "./varint";
+
+/** Multisig pubkeys exceed the 90 characters of BIP173, so allow the length the checksum is designed for */
+const bech32PubkeyLimit = 1023;
 
 export function encodeSecp256k1Pubkey(pubkey: Uint8Array): PubKey {
   if (pubkey.length !== 33 || (pubkey[0] !== 0x02 && pubkey[0] !== 0x03)) {
@@ -13,6 +18,16 @@ export function encodeSecp256k1Pubkey(pubkey: Uint8Array): PubKey {
   };
 }
 
+export function encodeEd25519Pubkey(pubkey: Uint8Array): PubKey {
+  if (pubkey.length !== 32) {
+    throw new Error("Ed25519 public key must be 32 bytes long");
+  }
+  return {
+    type: pubkeyType.ed25519,
+    value: Encoding.toBase64(pubkey),
+  };
+}
+
 // As discussed in https://github.com/binance-chain/javascript-sdk/issues/163
 // Prefixes listed here: https://github.com/tendermint/tendermint/blob/d419fffe18531317c28c29a292ad7d253f6cafdf/docs/spec/blockchain/encoding.md#public-key-cryptography
 // Last bytes is varint-encoded length prefix
@@ -20,9 +35,42 @@ const pubkeyAminoPrefixSecp256k1 = Encoding.fromHex("eb5ae98721");
 const pubkeyAminoPrefixEd25519 = Encoding.fromHex("1624de6420");
 const pubkeyAminoPrefixSr25519 = Encoding.fromHex("0dfb1005");
 const pubkeyAminoPrefixLength = pubkeyAminoPrefixSecp256k1.length;
+// Multisig pubkeys are structs, so their prefix has no length byte
+const pubkeyAminoPrefixMultisigThreshold = Encoding.fromHex("22c1f7e2");
+
+/**
+ * Decodes the fields of a multisig pubkey, i.e. the threshold (field 1, varint)
+ * followed by the Amino encoded member pubkeys (field 2, repeated bytes).
+ */
+function decodeMultisigThresholdFields(data: Uint8Array): MultisigThresholdPubKey {
+  if (data[0] !== 0x08) throw new Error("Invalid multisig pubkey. Expected threshold field.");
+  const threshold = decodeUvarint(data, 1);
+  let offset = 1 + threshold.length;
+  const pubkeys = new Array<PubKey>();
+  while (offset < data.length) {
+    if (data[offset] !== 0x12) throw new Error("Invalid multisig pubkey. Expected pubkey field.");
+    const length = decodeUvarint(data, offset + 1);
+    offset += 1 + length.length;
+    if (offset + length.value > data.length) throw new Error("Invalid multisig pubkey. Data too short.");
+    const pubkey = decodeAminoPubkey(data.slice(offset, offset + length.value));
+    if (isMultisigThresholdPubKey(pubkey)) throw new Error("Nested multisig pubkeys are not supported");
+    pubkeys.push(pubkey);
+    offset += length.value;
+  }
+  return {
+    type: pubkeyType.multisigThreshold,
+    value: { threshold: threshold.value.toString(), pubkeys: pubkeys },
+  };
+}
 
-export function decodeBech32Pubkey(bechEncoded: string): PubKey {
-  const { data } = Bech32.decode(bechEncoded);
+/**
+ * Decodes a pubkey from its Amino binary representation, as used in bech32 pubkeys and
+ * in the signatures of Amino encoded transactions.
+ */
+export function decodeAminoPubkey(data: Uint8Array): PubKey | MultisigThresholdPubKey {
+  if (equal(data.slice(0, pubkeyAminoPrefixMultisigThreshold.length), pubkeyAminoPrefixMultisigThreshold)) {
+    return decodeMultisigThresholdFields(data.slice(pubkeyAminoPrefixMultisigThreshold.length));
+  }
 
   const aminoPrefix = data.slice(0, pubkeyAminoPrefixLength);
   const rest = data.slice(pubkeyAminoPrefixLength);
@@ -55,17 +103,45 @@ export function decodeBech32Pubkey(bechEncoded: string): PubKey {
   }
 }
 
-export function encodeBech32Pubkey(pubkey: PubKey, prefix: string): string {
+export function decodeBech32Pubkey(bechEncoded: string): PubKey | MultisigThresholdPubKey {
+  const { words } = bech32.decode(bechEncoded, bech32PubkeyLimit);
+  return decodeAminoPubkey(new Uint8Array(bech32.fromWords(words)));
+}
+
+/**
+ * Encodes a pubkey to its Amino binary representation, as used in bech32 pubkeys and
+ * in the signatures of Amino encoded transactions.
+ */
+export function encodeAminoPubkey(pubkey: PubKey | MultisigThresholdPubKey): Uint8Array {
+  if (isMultisigThresholdPubKey(pubkey)) {
+    const threshold = parseInt(pubkey.value.threshold, 10);
+    const fields = [
+      0x08,
+      ...encodeUvarint(threshold),
+      ...pubkey.value.pubkeys
+        .map((member) => encodeAminoPubkey(member))
+        .map((encoded) => [0x12, ...encodeUvarint(encoded.length), ...encoded])
+        .reduce((accumulator, field) => [...accumulator, ...field], []),
+    ];
+    return new Uint8Array([...pubkeyAminoPrefixMultisigThreshold, ...fields]);
+  }
+
   let aminoPrefix: Uint8Array;
   switch (pubkey.type) {
     // Note: please don't add cases here without writing additional unit tests
     case pubkeyType.secp256k1:
       aminoPrefix = pubkeyAminoPrefixSecp256k1;
       break;
+    case pubkeyType.ed25519:
+      aminoPrefix = pubkeyAminoPrefixEd25519;
+      break;
     default:
       throw new Error("Unsupported pubkey type");
   }
 
-  const data = new Uint8Array([...aminoPrefix, ...Encoding.fromBase64(pubkey.value)]);
-  return Bech32.encode(prefix, data);
+  return new Uint8Array([...aminoPrefix, ...Encoding.fromBase64(pubkey.value)]);
+}
+
+export function encodeBech32Pubkey(pubkey: PubKey | MultisigThresholdPubKey, prefix: string): string {
+  return bech32.encode(prefix, bech32.toWords(encodeAminoPubkey(pubkey)), bech32PubkeyLimit);
 }
@@ -0,0 +1,40 @@
+import { Encoding } from "@iov/encoding";
+
+import { extractConsensusIoPubKey } from "./registration";
+import { makeRegistrationCert } from "./testutils.spec";
+
+const { fromHex, toBase64, toUtf8 } = Encoding;
+
+describe("registration", () => {
+  describe("extractConsensusIoPubKey", () => {
+    const consensusIoPubKey = fromHex("083b1a03661211d5a4cc8d39a77795795862f7730645573b2bcc2c1920c53c04");
+
+    it("works", () => {
+      expect(extractConsensusIoPubKey(makeRegistrationCert(consensusIoPubKey))).toEqual(consensusIoPubKey);
+    });
+
+    it("throws for quotes without report data", () => {
+      const payload = toUtf8(JSON.stringify({ isvEnclaveQuoteBody: toBase64(new Uint8Array(48)) }));
+      expect(payload.length).toBeLessThan(0x80); // short form length
+      const cert = Uint8Array.from([...fromHex("06096086480186f842010d"), 0x04, payload.length, ...payload]);
+      expect(() => extractConsensusIoPubKey(cert)).toThrowError(/too short/);
+    });
+
+    it("throws for certificates without attestation report", () => {
+      expect(() => extractConsensusIoPubKey(fromHex("3082010030820100"))).toThrowError(
+        /does not contain an attestation report/,
+      );
+    });
+
+    it("throws for truncated certificates", () => {
+      const cert = makeRegistrationCert(consensusIoPubKey);
+      expect(() => extractConsensusIoPubKey(cert.slice(0, 100))).toThrowError(/truncated/);
+    });
+
+    it("throws for reports without quote", () => {
+      const payload = toUtf8(JSON.stringify({ id: "1234" }));
+      const cert = Uint8Array.from([...fromHex("06096086480186f842010d"), 0x04, payload.length, ...payload]);
+      expect(() => extractConsensusIoPubKey(cert)).toThrowError(/does not contain a quote/);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { Encoding, isNonNullObject } from "@iov/encoding";
+
+/** The fields of an attestation report of Intel's attestation service that are used here */
+interface AttestationReport {
+  /** The base64 encoded SGX quote of the enclave */
+  readonly isvEnclaveQuoteBody: string;
+}
+
+function isAttestationReport(value: unknown): value is AttestationReport {
+  return isNonNullObject(value) && typeof (value as AttestationReport).isvEnclaveQuoteBody === "string";
+}
+
+/** DER encoding of the Netscape comment OID 2.16.840.1.113730.1.13, which holds the attestation report */
+const netscapeCommentOid = Uint8Array.from([
+  0x06,
+  0x09,
+  0x60,
+  0x86,
+  0x48,
+  0x01,
+  0x86,
+  0xf8,
+  0x42,
+  0x01,
+  0x0d,
+]);
+
+/** The offset of the report data in an SGX quote (48 bytes header + 320 bytes into the report body) */
+const reportDataOffset = 368;
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array): number {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((byte, j) => haystack[i + j] === byte)) return i;
+  }
+  return -1;
+}
+
+/** Reads the Netscape comment of a certificate, i.e. the content of the octet string following the OID */
+function extractNetscapeComment(cert: Uint8Array): Uint8Array {
+  const oidIndex = indexOf(cert, netscapeCommentOid);
+  if (oidIndex === -1) throw new Error("Certificate does not contain an attestation report");
+
+  let offset = oidIndex + netscapeCommentOid.length;
+  if (cert[offset] !== 0x04) throw new Error("Attestation report must be an octet string");
+  offset++;
+
+  let length = cert[offset];
+  offset++;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes > 3) throw new Error("Attestation report is too long");
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 0x100 + cert[offset + i];
+    }
+    offset += lengthBytes;
+  }
+  if (offset + length > cert.length) throw new Error("Certificate is truncated");
+  return cert.slice(offset, offset + length);
+}
+
+/**
+ * Extracts the consensus IO exchange pubkey from a registration certificate, e.g. the io-master-cert.der
+ * of a Secret Network chain.
+ *
+ * The certificate carries the enclave's attestation report in a Netscape comment extension as
+ * `report|signature|signing certificate`. The pubkey is the first 32 bytes of the report data in the
+ * quote of the report. The signature of Intel's attestation service is not checked here.
+ */
+export function extractConsensusIoPubKey(cert: Uint8Array): Uint8Array {
+  const comment = extractNetscapeComment(cert);
+  const separatorIndex = comment.indexOf(0x7c); // "|"
+  const reportJson = Encoding.fromUtf8(separatorIndex === -1 ? comment : comment.slice(0, separatorIndex));
+
+  let report: unknown;
+  try {
+    report = JSON.parse(reportJson);
+  } catch (error) {
+    throw new Error(`Attestation report is not valid JSON: ${error.message}`);
+  }
+  if (!isAttestationReport(report)) {
+    throw new Error("Attestation report does not contain a quote");
+  }
+
+  const quote = Encoding.fromBase64(report.isvEnclaveQuoteBody);
+  if (quote.length < reportDataOffset + 32) throw new Error("Quote is too short");
+  return quote.slice(reportDataOffset, reportDataOffset + 32);
+}
@@ -0,0 +1,42 @@
+import { Encoding } from "@iov/encoding";
+import { promises as fs } from "fs";
+
+import EnigmaUtils from "./enigmautils";
+import { extractConsensusIoPubKey } from "./registration";
+import {
+  pendingWithoutRegistrationCert,
+  pendingWithoutWasmd,
+  registrationCertPath,
+  wasmd,
+} from "./testutils.spec";
+import { HttpTransport } from "./transport";
+
+describe("registration with a real io-master-cert.der", () => {
+  async function loadCert(): Promise<Uint8Array> {
+    return new Uint8Array(await fs.readFile(registrationCertPath()!));
+  }
+
+  it("extracts the consensus IO pubkey", async () => {
+    pendingWithoutRegistrationCert();
+    const cert = await loadCert();
+    expect(cert[0]).toEqual(0x30); // a DER sequence, i.e. an actual X.509 certificate
+    expect(extractConsensusIoPubKey(cert).length).toEqual(32);
+  });
+
+  it("matches the consensus IO pubkey of the node", async () => {
+    pendingWithoutRegistrationCert();
+    pendingWithoutWasmd();
+    const cert = await loadCert();
+    const { result } = await new HttpTransport(wasmd.endpoint).get("/reg/consensus-io-exch-pubkey");
+    expect(extractConsensusIoPubKey(cert)).toEqual(Encoding.fromBase64(result.ioExchPubkey));
+
+    // encrypting for the certified pubkey gives the same result as for the one of the node
+    const seed = new Uint8Array(32).fill(0x11);
+    const nonce = new Uint8Array(32).fill(0x22);
+    const certified = new EnigmaUtils(wasmd.endpoint, seed, undefined, undefined, cert);
+    const fromNode = new EnigmaUtils(wasmd.endpoint, seed);
+    expect(await certified.encryptWithNonce("ab".repeat(32), {}, nonce)).toEqual(
+      await fromNode.encryptWithNonce("ab".repeat(32), {}, nonce),
+    );
+  });
+});
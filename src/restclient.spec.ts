@@ -6,10 +6,12 @@ import { ReadonlyDate } from "readonly-date";
 
 import { rawSecp256k1PubkeyToAddress } from "./address";
 import { makeSignBytes } from "./encoding";
+import EnigmaUtils from "./enigmautils";
+import { ContractQueryError, HttpError } from "./errors";
 import { findAttribute, parseLogs } from "./logs";
 import { makeSecretNetworkPath, Pen, Secp256k1Pen } from "./pen";
 import { encodeBech32Pubkey } from "./pubkey";
-import { PostTxsResponse, RestClient, TxsResponse } from "./restclient";
+import { PostTxsResponse, RestClient, TxsResponse, UndecryptedReason } from "./restclient";
 import { SigningCosmWasmClient } from "./signingcosmwasmclient";
 import cosmoshub from "./testdata/cosmoshub.json";
 import {
@@ -18,6 +20,7 @@ import {
   faucet,
   fromOneElementArray,
   getHackatom,
+  makeNoopSecretUtils,
   makeRandomAddress,
   nonNegativeIntegerMatcher,
   pendingWithoutWasmd,
@@ -44,7 +47,7 @@ import {
   StdTx,
 } from "./types";
 
-const { fromAscii, fromBase64, fromHex, toAscii, toBase64, toHex } = Encoding;
+const { fromAscii, fromBase64, fromHex, toAscii, toBase64, toHex, toUtf8 } = Encoding;
 
 const emptyAddress = "cosmos1ltkhnmdcqemmd2tkhnx7qx66tq7e0wykw2j85k";
 
@@ -765,6 +768,226 @@ describe("RestClient", () => {
     });
   });
 
+  describe("decryptTx", () => {
+    const pubkey = new Uint8Array(32).fill(0x42);
+    const codeHash = "ab".repeat(32);
+    const handleMsg = { release: {} };
+
+    /** A RestClient using a no-op cipher */
+    function makeClient(): RestClient {
+      const client = new RestClient(wasmd.endpoint);
+      client.enigmautils = makeNoopSecretUtils(pubkey);
+      return client;
+    }
+
+    function makeExecuteResponse(encryptedMsg: Uint8Array, rawLog = "[]"): TxsResponse {
+      const executeMsg: MsgExecuteContract = {
+        type: "wasm/MsgExecuteContract",
+        value: {
+          sender: faucet.address,
+          contract: makeRandomAddress(),
+          callback_code_hash: "",
+          msg: toBase64(encryptedMsg),
+          sent_funds: [],
+          callback_sig: null,
+        },
+      };
+      return {
+        height: "1234",
+        txhash: "ABCD",
+        raw_log: rawLog,
+        data: toHex(toUtf8(toBase64(toAscii("result")))),
+        logs: [
+          {
+            msg_index: 0,
+            log: "",
+            events: [
+              {
+                type: "wasm",
+                attributes: [{ key: toBase64(toUtf8("action")), value: toBase64(toUtf8("release")) }],
+              },
+            ],
+          },
+        ],
+        tx: {
+          type: "cosmos-sdk/StdTx",
+          value: makeSignedTx(executeMsg, { amount: [], gas: "200000" }, "", {
+            pub_key: { type: "tendermint/PubKeySecp256k1", value: "" },
+            signature: "",
+          }),
+        },
+        gas_wanted: "200000",
+        gas_used: "123456",
+        timestamp: "2020-02-15T10:39:10.4696305Z",
+      };
+    }
+
+    it("decrypts inputs, data and logs without modifying the response", async () => {
+      const client = makeClient();
+      const response = makeExecuteResponse(await client.enigmautils.encrypt(codeHash, handleMsg));
+      const original = JSON.parse(JSON.stringify(response));
+
+      const decrypted = await client.decryptTx(response);
+      expect(decrypted.decryption).toEqual({
+        decrypted: true,
+        reason: undefined,
+        inputs: [handleMsg],
+        error: undefined,
+        pubkey: pubkey,
+      });
+      expect(decrypted.data).toEqual(toAscii("result"));
+      expect(decrypted.logs).toEqual([
+        {
+          msg_index: 0,
+          log: "",
+          events: [{ type: "wasm", attributes: [{ key: "action", value: "release" }] }],
+        },
+      ]);
+      expect(decrypted.tx).toEqual(original.tx);
+      expect(JSON.parse(JSON.stringify(response))).toEqual(original);
+    });
+
+    it("decrypts contract errors", async () => {
+      const client = makeClient();
+      const rawLog = `execute wasm contract failed: contract failed: encrypted: ${toBase64(
+        toUtf8("insufficient funds"),
+      )}: failed to execute message; message index: 0`;
+      const response = makeExecuteResponse(await client.enigmautils.encrypt(codeHash, handleMsg), rawLog);
+
+      const decrypted = await client.decryptTx(response);
+      expect(decrypted.decryption.error).toEqual("insufficient funds");
+      expect(decrypted.raw_log).toEqual(
+        "execute wasm contract failed: contract failed: encrypted: insufficient funds: failed to execute message; message index: 0",
+      );
+    });
+
+    it("reports contract errors that cannot be decrypted", async () => {
+      const client = makeClient();
+      const rawLog =
+        "execute wasm contract failed: contract failed: encrypted: not base64!: failed to execute message; message index: 0";
+      const response = makeExecuteResponse(await client.enigmautils.encrypt(codeHash, handleMsg), rawLog);
+
+      const decrypted = await client.decryptTx(response);
+      expect(decrypted.decryption.decrypted).toEqual(true);
+      expect(decrypted.decryption.inputs).toEqual([handleMsg]);
+      expect(decrypted.decryption.reason).toEqual(UndecryptedReason.DecryptionFailed);
+      expect(decrypted.decryption.error).toBeUndefined();
+      expect(decrypted.raw_log).toEqual(rawLog);
+    });
+
+    it("reports inputs encrypted for another key", async () => {
+      const client = makeClient();
+      const encryptedMsg = await client.enigmautils.encrypt(codeHash, handleMsg);
+      encryptedMsg.set(new Uint8Array(32).fill(0x07), 32);
+      const response = makeExecuteResponse(encryptedMsg);
+
+      const decrypted = await client.decryptTx(response);
+      expect(decrypted.decryption).toEqual({
+        decrypted: false,
+        reason: UndecryptedReason.OtherKey,
+        inputs: [undefined],
+      });
+      expect(decrypted.data).toEqual(response.data);
+      expect(decrypted.logs).toEqual(response.logs);
+    });
+
+    it("decrypts with the keyring key that matches the embedded pubkey", async () => {
+      const client = makeClient();
+      const formerKey = makeNoopSecretUtils(new Uint8Array(32).fill(0x07));
+      const otherKey = makeNoopSecretUtils(new Uint8Array(32).fill(0x08));
+      client.keyring = [otherKey, formerKey];
+      const response = makeExecuteResponse(await formerKey.encrypt(codeHash, handleMsg));
+      const decryptSpy = spyOn(formerKey, "decrypt").and.callThrough();
+      spyOn(client.enigmautils, "decrypt").and.throwError("must not be used");
+
+      const decrypted = await client.decryptTx(response);
+      expect(decrypted.decryption.decrypted).toEqual(true);
+      expect(decrypted.decryption.inputs).toEqual([handleMsg]);
+      expect(decrypted.decryption.pubkey).toEqual(new Uint8Array(32).fill(0x07));
+      expect(decrypted.data).toEqual(toAscii("result"));
+      expect(decrypted.logs![0].events[0].attributes).toEqual([{ key: "action", value: "release" }]);
+      expect(decryptSpy).toHaveBeenCalled();
+    });
+
+    it("decrypts messages without modifying them", async () => {
+      const client = makeClient();
+      const response = makeExecuteResponse(await client.enigmautils.encrypt(codeHash, handleMsg));
+      const original = JSON.parse(JSON.stringify(response.tx.value.msg));
+
+      const msgs = await client.decryptMsgs(response.tx.value.msg);
+      expect(msgs).toEqual([{ ...original[0], value: { ...original[0].value, msg: handleMsg } }]);
+      expect(JSON.parse(JSON.stringify(response.tx.value.msg))).toEqual(original);
+    });
+
+    it("creates keyring keys from keypairs", async () => {
+      const keypair = EnigmaUtils.GenerateNewKeyPair();
+      const client = new RestClient(wasmd.endpoint, undefined, undefined, undefined, [keypair]);
+      expect(client.keyring.length).toEqual(1);
+      expect(await client.keyring[0].getPubkey()).toEqual(keypair.pubkey);
+
+      const otherKeypair = EnigmaUtils.GenerateNewKeyPair();
+      expect(
+        () =>
+          new RestClient(wasmd.endpoint, undefined, undefined, undefined, [
+            { privkey: keypair.privkey, pubkey: otherKeypair.pubkey },
+          ]),
+      ).toThrowError(/does not match/);
+    });
+
+    it("reports failed decryptions", async () => {
+      const client = makeClient();
+      const response = makeExecuteResponse(await client.enigmautils.encrypt(codeHash, handleMsg));
+      client.enigmautils.decrypt = async () => {
+        throw new Error("Ciphertext corrupted");
+      };
+
+      const decrypted = await client.decryptTx(response);
+      expect(decrypted.decryption.decrypted).toEqual(false);
+      expect(decrypted.decryption.reason).toEqual(UndecryptedReason.DecryptionFailed);
+    });
+
+    it("throws a ContractQueryError with the decrypted error of a smart query", async () => {
+      const client = makeClient();
+      const errorCiphertext = toBase64(toUtf8("unknown variant `broken`"));
+      spyOn(client, "get").and.callFake(async (path: string) => {
+        if (path.endsWith("/code-hash")) return { result: codeHash } as any;
+        throw new HttpError(
+          500,
+          `query wasm contract failed: contract failed: encrypted: ${errorCiphertext}`,
+        );
+      });
+
+      const contractAddress = makeRandomAddress();
+      await client.queryContractSmart(contractAddress, { broken: {} }).then(
+        () => fail("must not succeed"),
+        (error) => {
+          expect(error).toEqual(jasmine.any(ContractQueryError));
+          expect(error.address).toEqual(contractAddress);
+          expect(error.decryptedMessage).toEqual("unknown variant `broken`");
+          expect(error.encryptedMessage).toEqual(errorCiphertext);
+          expect(error.message).toEqual(
+            "query wasm contract failed: contract failed: encrypted: unknown variant `broken` (HTTP 500)",
+          );
+        },
+      );
+    });
+
+    it("reports transactions without encrypted inputs", async () => {
+      const client = makeClient();
+      const response = {
+        ...makeExecuteResponse(new Uint8Array()),
+        tx: cosmoshub.tx,
+      };
+
+      const decrypted = await client.decryptTx(response);
+      expect(decrypted.decryption).toEqual({
+        decrypted: false,
+        reason: UndecryptedReason.NotEncrypted,
+        inputs: [undefined],
+      });
+    });
+  });
+
   describe("encodeTx", () => {
     it("works for cosmoshub example", async () => {
       pendingWithoutWasmd();
@@ -1207,6 +1430,163 @@ describe("RestClient", () => {
     });
   });
 
+  describe("simulate", () => {
+    it("uses the simulate mode of the bank send endpoint", async () => {
+      const client = new RestClient(wasmd.endpoint);
+      const postSpy = spyOn(client, "post").and.resolveTo({ gas_estimate: "54321" });
+      const recipient = makeRandomAddress();
+      const theMsg: MsgSend = {
+        type: "cosmos-sdk/MsgSend",
+        value: {
+          from_address: faucet.address,
+          to_address: recipient,
+          amount: [{ amount: "1234", denom: "ucosm" }],
+        },
+      };
+
+      expect(await client.simulate([theMsg], wasmd.chainId, "a memo")).toEqual({ gas_estimate: "54321" });
+      expect(postSpy).toHaveBeenCalledWith(`/bank/accounts/${recipient}/transfers`, {
+        base_req: {
+          from: faucet.address,
+          memo: "a memo",
+          chain_id: wasmd.chainId,
+          simulate: true,
+          gas_adjustment: "1",
+        },
+        amount: [{ amount: "1234", denom: "ucosm" }],
+      });
+    });
+
+    it("uses the simulate mode of the store code endpoint", async () => {
+      const client = new RestClient(wasmd.endpoint);
+      const postSpy = spyOn(client, "post").and.resolveTo({ gas_estimate: "54321" });
+      const theMsg: MsgStoreCode = {
+        type: "wasm/MsgStoreCode",
+        value: {
+          sender: faucet.address,
+          wasm_byte_code: toBase64(new Uint8Array([0x1f, 0x8b, 0x08, 0x00])),
+          source: "",
+          builder: "",
+        },
+      };
+
+      await client.simulate([theMsg], wasmd.chainId);
+      expect(postSpy).toHaveBeenCalledWith("/wasm/code", {
+        base_req: jasmine.objectContaining({ from: faucet.address, simulate: true }),
+        wasm_bytes: theMsg.value.wasm_byte_code,
+      });
+    });
+
+    it("uses the simulate mode of the instantiate endpoint", async () => {
+      const client = new RestClient(wasmd.endpoint);
+      const postSpy = spyOn(client, "post").and.resolveTo({ gas_estimate: "54321" });
+      const theMsg: MsgInstantiateContract = {
+        type: "wasm/MsgInstantiateContract",
+        value: {
+          sender: faucet.address,
+          code_id: "42",
+          label: "my escrow",
+          callback_code_hash: "",
+          init_msg: toBase64(new Uint8Array(100).fill(0xe7)),
+          init_funds: [{ amount: "1", denom: "ucosm" }],
+          callback_sig: null,
+        },
+      };
+
+      await client.simulate([theMsg], wasmd.chainId);
+      expect(postSpy).toHaveBeenCalledWith("/wasm/code/42", {
+        base_req: jasmine.objectContaining({ from: faucet.address, simulate: true }),
+        label: "my escrow",
+        deposit: [{ amount: "1", denom: "ucosm" }],
+        init_msg: theMsg.value.init_msg,
+      });
+    });
+
+    it("uses the simulate mode of the contract execute endpoint", async () => {
+      const client = new RestClient(wasmd.endpoint);
+      const postSpy = spyOn(client, "post").and.resolveTo({ gas_estimate: "54321" });
+      const contract = makeRandomAddress();
+      const theMsg: MsgExecuteContract = {
+        type: "wasm/MsgExecuteContract",
+        value: {
+          sender: faucet.address,
+          contract: contract,
+          callback_code_hash: "",
+          msg: toBase64(new Uint8Array(100).fill(0xe7)),
+          sent_funds: [{ amount: "1", denom: "ucosm" }],
+          callback_sig: null,
+        },
+      };
+
+      await client.simulate([theMsg], wasmd.chainId);
+      expect(postSpy).toHaveBeenCalledWith(`/wasm/contract/${contract}`, {
+        base_req: jasmine.objectContaining({ from: faucet.address, simulate: true }),
+        exec_msg: theMsg.value.msg,
+        coins: [{ amount: "1", denom: "ucosm" }],
+      });
+    });
+
+    it("throws for transactions with multiple messages", async () => {
+      const client = new RestClient(wasmd.endpoint);
+      const postSpy = spyOn(client, "post");
+      const theMsg: MsgSend = {
+        type: "cosmos-sdk/MsgSend",
+        value: {
+          from_address: faucet.address,
+          to_address: makeRandomAddress(),
+          amount: [{ amount: "1234", denom: "ucosm" }],
+        },
+      };
+
+      await client.simulate([theMsg, theMsg], wasmd.chainId).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/only transactions with a single message can be simulated, got 2/i),
+      );
+      expect(postSpy).not.toHaveBeenCalled();
+    });
+
+    it("throws for unsupported messages", async () => {
+      const client = new RestClient(wasmd.endpoint);
+      await client.simulate([{ type: "cosmos-sdk/MsgMultiSend", value: {} }], wasmd.chainId).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/not supported for messages of type cosmos-sdk\/MsgMultiSend/),
+      );
+    });
+
+    it("can simulate a send against the node", async () => {
+      pendingWithoutWasmd();
+      const client = new RestClient(wasmd.endpoint);
+      const theMsg: MsgSend = {
+        type: "cosmos-sdk/MsgSend",
+        value: {
+          from_address: faucet.address,
+          to_address: makeRandomAddress(),
+          amount: [{ amount: "1234", denom: "ucosm" }],
+        },
+      };
+      const { gas_estimate } = await client.simulate([theMsg], wasmd.chainId);
+      expect(gas_estimate).toMatch(nonNegativeIntegerMatcher);
+      expect(parseInt(gas_estimate, 10)).toBeGreaterThan(0);
+    });
+
+    it("can simulate an upload against the node", async () => {
+      pendingWithoutWasmd();
+      const client = new RestClient(wasmd.endpoint);
+      const theMsg: MsgStoreCode = {
+        type: "wasm/MsgStoreCode",
+        value: {
+          sender: faucet.address,
+          wasm_byte_code: toBase64(getHackatom()),
+          source: "",
+          builder: "",
+        },
+      };
+      const { gas_estimate } = await client.simulate([theMsg], wasmd.chainId);
+      expect(gas_estimate).toMatch(nonNegativeIntegerMatcher);
+      expect(parseInt(gas_estimate, 10)).toBeGreaterThan(0);
+    });
+  });
+
   // The /wasm endpoints
 
   describe("query", () => {
@@ -1,5 +1,4 @@
 import { Encoding, isNonNullObject } from "@iov/encoding";
-import axios, { AxiosError, AxiosInstance } from "axios";
 import { Log, Attribute } from "./logs";
 import {
   Coin,
@@ -10,10 +9,14 @@ import {
   parseWasmData,
   StdTx,
   WasmData,
-  MsgInstantiateContract,
-  MsgExecuteContract,
+  isMsgExecuteContract,
+  isMsgInstantiateContract,
+  isMsgSend,
+  isMsgStoreCode,
 } from "./types";
-import EnigmaUtils, {SecretUtils} from "./enigmautils";
+import EnigmaUtils, { SecretUtils, X25519Keypair } from "./enigmautils";
+import { ContractQueryError, DecryptionError, HttpError } from "./errors";
+import { HttpTransport, Transport } from "./transport";
 
 export interface CosmosSdkAccount {
   /** Bech32 account address */
@@ -149,7 +152,42 @@ export interface TxsResponse {
   readonly timestamp: string;
 }
 
-interface SearchTxsResponse {
+/** Why the contract inputs of a transaction were not decrypted */
+export enum UndecryptedReason {
+  /** The transaction contains no wasm messages with encrypted inputs */
+  NotEncrypted = "not_encrypted",
+  /** The inputs were encrypted for another key than the ones of this client */
+  OtherKey = "other_key",
+  /** Decryption failed, e.g. because the ciphertext is corrupted */
+  DecryptionFailed = "decryption_failed",
+}
+
+/** Describes what could be decrypted in a transaction */
+export interface TxDecryption {
+  /** True if the input of at least one message was decrypted */
+  readonly decrypted: boolean;
+  /** Set if nothing was decrypted or if the error of a failed contract call could not be decrypted */
+  readonly reason?: UndecryptedReason;
+  /**
+   * The decrypted inputs parsed as JSON, indexed by message index.
+   * Undefined for messages that were not decrypted.
+   */
+  readonly inputs: readonly any[];
+  /** The decrypted error of a failed contract call. Undefined if it could not be decrypted, see `reason`. */
+  readonly error?: string;
+  /** The x25519 pubkey of the key that decrypted the transaction. Set if something was decrypted. */
+  readonly pubkey?: Uint8Array;
+}
+
+/**
+ * A transaction response with decrypted logs, data and raw log. The transaction
+ * itself is not modified, its decrypted inputs are found in `decryption`.
+ */
+export interface DecryptedTxsResponse extends TxsResponse {
+  readonly decryption: TxDecryption;
+}
+
+export interface SearchTxsResponse {
   readonly total_count: string;
   readonly count: string;
   readonly page_number: string;
@@ -161,6 +199,7 @@ interface SearchTxsResponse {
 export interface PostTxsResponse {
   readonly height: string;
   readonly txhash: string;
+  readonly codespace?: string;
   readonly code?: number;
   readonly raw_log?: string;
   data: any;
@@ -172,6 +211,27 @@ export interface PostTxsResponse {
   readonly gas_used?: string;
 }
 
+/**
+ * The common part of the requests to the legacy REST endpoints that create transactions
+ *
+ * @see https://github.com/cosmos/cosmos-sdk/blob/v0.38.3/types/rest/rest.go#L37-L52
+ */
+export interface BaseReq {
+  /** Bech32 account address of the signer */
+  readonly from: string;
+  readonly memo: string;
+  readonly chain_id: string;
+  /** Return the gas estimate instead of the unsigned transaction */
+  readonly simulate: boolean;
+  /** Decimal factor the simulated gas is multiplied with */
+  readonly gas_adjustment: string;
+}
+
+export interface SimulateResponse {
+  /** The gas used by the simulated execution */
+  readonly gas_estimate: string;
+}
+
 interface EncodeTxResponse {
   // base64-encoded amino-binary encoded representation
   readonly tx: string;
@@ -219,6 +279,7 @@ type RestClientResponse =
   | TxsResponse
   | SearchTxsResponse
   | PostTxsResponse
+  | SimulateResponse
   | EncodeTxResponse
   | WasmResponse<string>
   | WasmResponse<CodeInfo[]>
@@ -248,6 +309,64 @@ export enum BroadcastMode {
   Async = "async",
 }
 
+/**
+ * Returns the encrypted input (nonce || tx sender pubkey || ciphertext) of a wasm message,
+ * or undefined if the message has no encrypted input.
+ */
+export function getEncryptedInput(msg: Msg): Uint8Array | undefined {
+  if (isMsgExecuteContract(msg)) {
+    return Encoding.fromBase64(msg.value.msg);
+  } else if (isMsgInstantiateContract(msg)) {
+    return Encoding.fromBase64(msg.value.init_msg);
+  } else {
+    return undefined;
+  }
+}
+
+/**
+ * Parses a decrypted wasm message input, which is the contract's code hash (64 hex characters)
+ * followed by the JSON message. Inputs that are not valid JSON are returned as a string.
+ */
+export function parseDecryptedInput(plaintext: Uint8Array): any {
+  const input = Encoding.fromUtf8(plaintext);
+  const json = /^[0-9a-f]{64}/i.test(input) ? input.slice(64) : input;
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    return input;
+  }
+}
+
+/** Returns copies of the messages in which the decrypted inputs replace the encrypted ones */
+function withDecryptedInputs(msgs: readonly Msg[], inputs: readonly any[]): Msg[] {
+  return msgs.map(
+    (msg, msgIndex): Msg => {
+      const input = inputs[msgIndex];
+      if (input === undefined) {
+        return msg;
+      } else if (isMsgExecuteContract(msg)) {
+        return { ...msg, value: { ...msg.value, msg: input } };
+      } else if (isMsgInstantiateContract(msg)) {
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        return { ...msg, value: { ...msg.value, init_msg: input } };
+      } else {
+        return msg;
+      }
+    },
+  );
+}
+
+/** Creates a deep copy of logs that can be decrypted in place */
+function copyLogs(logs: readonly Log[]): Log[] {
+  return logs.map((log) => ({
+    ...log,
+    events: log.events.map((event) => ({
+      ...event,
+      attributes: event.attributes.map((attribute) => ({ ...attribute })),
+    })),
+  }));
+}
+
 function isWasmError<T>(resp: WasmResponse<T>): resp is WasmError {
   return (resp as WasmError).error !== undefined;
 }
@@ -259,32 +378,12 @@ function unwrapWasmResponse<T>(response: WasmResponse<T>): T {
   return response.result;
 }
 
-// We want to get message data from 500 errors
-// https://stackoverflow.com/questions/56577124/how-to-handle-500-error-message-with-axios
-// this should be chained to catch one error and throw a more informative one
-function parseAxiosError(err: AxiosError): never {
-  // use the error message sent from server, not default 500 msg
-  if (err.response?.data) {
-    let errorText: string;
-    const data = err.response.data;
-    // expect { error: string }, but otherwise dump
-    if (data.error && typeof data.error === "string") {
-      errorText = data.error;
-    } else if (typeof data === "string") {
-      errorText = data;
-    } else {
-      errorText = JSON.stringify(data);
-    }
-    throw new Error(`${errorText} (HTTP ${err.response.status})`);
-  } else {
-    throw err;
-  }
-}
-
 export class RestClient {
-  private readonly client: AxiosInstance;
+  private readonly transport: Transport;
   private readonly broadcastMode: BroadcastMode;
   public enigmautils: SecretUtils;
+  /** Additional keys that transactions are decrypted with, e.g. the keys of former seeds */
+  public keyring: readonly SecretUtils[];
 
   private codeHashCache: Map<any, string>;
 
@@ -298,23 +397,29 @@ export class RestClient {
    *
    * @param apiUrl The URL of a Cosmos SDK light client daemon API (sometimes called REST server or REST API)
    * @param broadcastMode Defines at which point of the transaction processing the postTx method (i.e. transaction broadcasting) returns
-   * @param seed - The seed used to generate sender TX encryption key. If empty will generate random new one
+   * @param seed - The seed used to generate sender TX encryption key. If empty will generate random new one.
+   * Use a SeedStore or derive the seed from the wallet to decrypt transactions of earlier sessions.
+   * @param transport - Sends the HTTP requests, e.g. an HttpTransport with retries and failover URLs.
+   * Defaults to an HttpTransport for apiUrl.
+   * @param keyring - Additional x25519 keypairs that transactions are decrypted with. The key of a
+   * transaction is picked by the pubkey embedded in its encrypted inputs.
    */
-  public constructor(apiUrl: string, broadcastMode = BroadcastMode.Block, seed?: Uint8Array) {
-    const headers = {
-      post: { "Content-Type": "application/json" },
-    };
-    this.client = axios.create({
-      baseURL: apiUrl,
-      headers: headers,
-    });
+  public constructor(
+    apiUrl: string,
+    broadcastMode = BroadcastMode.Block,
+    seed?: Uint8Array,
+    transport: Transport = new HttpTransport(apiUrl),
+    keyring: readonly X25519Keypair[] = [],
+  ) {
+    this.transport = transport;
     this.broadcastMode = broadcastMode;
-    this.enigmautils = new EnigmaUtils(apiUrl, seed);
+    this.enigmautils = new EnigmaUtils(apiUrl, seed, transport);
+    this.keyring = keyring.map((keypair) => EnigmaUtils.fromKeypair(apiUrl, keypair, transport));
     this.codeHashCache = new Map<any, string>();
   }
 
   public async get(path: string): Promise<RestClientResponse> {
-    const { data } = await this.client.get(path).catch(parseAxiosError);
+    const data = await this.transport.get(path);
     if (data === null) {
       throw new Error("Received null response from server");
     }
@@ -323,7 +428,7 @@ export class RestClient {
 
   public async post(path: string, params: any): Promise<RestClientResponse> {
     if (!isNonNullObject(params)) throw new Error("Got unexpected type of params. Expected object.");
-    const { data } = await this.client.post(path, params).catch(parseAxiosError);
+    const data = await this.transport.post(path, params);
     if (data === null) {
       throw new Error("Received null response from server");
     }
@@ -367,16 +472,23 @@ export class RestClient {
   }
 
   // The /txs endpoints
-  public async txById(id: string): Promise<TxsResponse> {
+
+  /**
+   * @param decrypt Set to false to get the transaction as returned by the node
+   */
+  public async txById(id: string, decrypt = true): Promise<TxsResponse> {
     const responseData = await this.get(`/txs/${id}`);
     if (!(responseData as any).tx) {
       throw new Error("Unexpected response data format");
     }
 
-    return this.decryptTxsResponse(responseData as TxsResponse);
+    return decrypt ? this.decryptTxsResponse(responseData as TxsResponse) : (responseData as TxsResponse);
   }
 
-  public async txsQuery(query: string): Promise<SearchTxsResponse> {
+  /**
+   * @param decrypt Set to false to get the transactions as returned by the node
+   */
+  public async txsQuery(query: string, decrypt = true): Promise<SearchTxsResponse> {
     const responseData = await this.get(`/txs?${query}`);
     if (!(responseData as any).txs) {
       throw new Error("Unexpected response data format");
@@ -384,8 +496,10 @@ export class RestClient {
 
     const resp = responseData as SearchTxsResponse;
 
-    for (let i = 0; i < resp.txs.length; i++) {
-      resp.txs[i] = await this.decryptTxsResponse(resp.txs[i]);
+    if (decrypt) {
+      for (let i = 0; i < resp.txs.length; i++) {
+        resp.txs[i] = await this.decryptTxsResponse(resp.txs[i]);
+      }
     }
 
     return resp;
@@ -419,6 +533,73 @@ export class RestClient {
     return responseData as PostTxsResponse;
   }
 
+  /**
+   * Simulates a transaction containing the messages without broadcasting it and returns the gas it used.
+   *
+   * The legacy REST server has no endpoint to simulate a signed transaction. Instead, this uses the
+   * simulate mode of the endpoints that create unsigned transactions, i.e. bank send, store code,
+   * instantiate and execute. Each of them creates a transaction with exactly one message, so only
+   * transactions with a single message can be simulated. Signatures are not verified in simulation mode,
+   * so none are needed.
+   *
+   * @param msgs A MsgSend, MsgStoreCode or an encrypted MsgInstantiateContract or MsgExecuteContract
+   */
+  public async simulate(msgs: readonly Msg[], chainId: string, memo = ""): Promise<SimulateResponse> {
+    if (msgs.length !== 1) {
+      throw new Error(`Only transactions with a single message can be simulated, got ${msgs.length}`);
+    }
+    const [msg] = msgs;
+    const makeBaseReq = (from: string): BaseReq => ({
+      from: from,
+      memo: memo,
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      chain_id: chainId,
+      simulate: true,
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      gas_adjustment: "1",
+    });
+
+    let responseData: RestClientResponse;
+    if (isMsgSend(msg)) {
+      responseData = await this.post(`/bank/accounts/${msg.value.to_address}/transfers`, {
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        base_req: makeBaseReq(msg.value.from_address),
+        amount: msg.value.amount,
+      });
+    } else if (isMsgStoreCode(msg)) {
+      responseData = await this.post("/wasm/code", {
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        base_req: makeBaseReq(msg.value.sender),
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        wasm_bytes: msg.value.wasm_byte_code,
+      });
+    } else if (isMsgInstantiateContract(msg)) {
+      responseData = await this.post(`/wasm/code/${msg.value.code_id}`, {
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        base_req: makeBaseReq(msg.value.sender),
+        label: msg.value.label,
+        deposit: msg.value.init_funds,
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        init_msg: msg.value.init_msg,
+      });
+    } else if (isMsgExecuteContract(msg)) {
+      responseData = await this.post(`/wasm/contract/${msg.value.contract}`, {
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        base_req: makeBaseReq(msg.value.sender),
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        exec_msg: msg.value.msg,
+        coins: msg.value.sent_funds,
+      });
+    } else {
+      throw new Error(`Simulation is not supported for messages of type ${msg.type}`);
+    }
+
+    if (!(responseData as any).gas_estimate) {
+      throw new Error("Unexpected response data format");
+    }
+    return responseData as SimulateResponse;
+  }
+
   // The /wasm endpoints
 
   // wasm rest queries are listed here: https://github.com/cosmwasm/wasmd/blob/master/x/wasm/client/rest/query.go#L19-L27
@@ -510,33 +691,42 @@ export class RestClient {
     try {
       responseData = (await this.get(path)) as WasmResponse<SmartQueryResponse>;
     } catch (err) {
-      try {
-        const errorMessageRgx = /contract failed: encrypted: (.+?) \(HTTP 500\)/g;
-
-        const rgxMatches = errorMessageRgx.exec(err.message);
-        if (rgxMatches == null || rgxMatches.length != 2) {
-          throw err;
-        }
-
-        const errorCipherB64 = rgxMatches[1];
-        const errorCipherBz = Encoding.fromBase64(errorCipherB64);
+      if (!(err instanceof HttpError)) {
+        throw err;
+      }
 
-        const errorPlainBz = await this.enigmautils.decrypt(errorCipherBz, nonce);
+      const errorMessageRgx = /contract failed: encrypted: ([A-Za-z0-9+/=]+)/;
+      const rgxMatches = errorMessageRgx.exec(err.errorText);
+      if (rgxMatches == null || rgxMatches.length != 2) {
+        throw err;
+      }
 
-        err.message = err.message.replace(errorCipherB64, Encoding.fromUtf8(errorPlainBz));
+      const errorCipherB64 = rgxMatches[1];
+      let errorPlain: string;
+      try {
+        errorPlain = Encoding.fromUtf8(
+          await this.enigmautils.decrypt(Encoding.fromBase64(errorCipherB64), nonce),
+        );
       } catch (decryptionError) {
-        throw new Error(
+        throw new DecryptionError(
           `Failed to decrypt the following error message: ${err.message}. Decryption error of the error message: ${decryptionError.message}`,
+          decryptionError,
         );
       }
 
-      throw err;
+      throw new ContractQueryError(
+        err.message.replace(errorCipherB64, errorPlain),
+        address,
+        errorPlain,
+        errorCipherB64,
+      );
     }
 
     if (isWasmError(responseData)) {
-      throw new Error(
-        JSON.stringify(await this.enigmautils.decrypt(Encoding.fromBase64(responseData.error), nonce)),
+      const errorPlain = Encoding.fromUtf8(
+        await this.enigmautils.decrypt(Encoding.fromBase64(responseData.error), nonce),
       );
+      throw new ContractQueryError(errorPlain, address, errorPlain, responseData.error);
     }
 
     // By convention, smart queries must return a valid JSON document (see https://github.com/CosmWasm/cosmwasm/issues/144)
@@ -558,29 +748,35 @@ export class RestClient {
     return this.get("/register/master-cert");
   }
 
-  public async decryptDataField(dataField: string = "", nonce: Uint8Array): Promise<Uint8Array> {
+  public async decryptDataField(
+    dataField: string = "",
+    nonce: Uint8Array,
+    secretUtils: SecretUtils = this.enigmautils,
+  ): Promise<Uint8Array> {
     const wasmOutputDataCipherBz = Encoding.fromHex(dataField);
 
     // data
     const data = Encoding.fromBase64(
-      Encoding.fromUtf8(await this.enigmautils.decrypt(wasmOutputDataCipherBz, nonce)),
+      Encoding.fromUtf8(await secretUtils.decrypt(wasmOutputDataCipherBz, nonce)),
     );
 
     return data;
   }
 
-  public async decryptLogs(logs: readonly Log[], nonce: Uint8Array): Promise<readonly Log[]> {
+  public async decryptLogs(
+    logs: readonly Log[],
+    nonce: Uint8Array,
+    secretUtils: SecretUtils = this.enigmautils,
+  ): Promise<readonly Log[]> {
     for (const l of logs) {
       for (const e of l.events) {
         if (e.type === "wasm") {
           for (const a of e.attributes) {
             try {
-              a.key = Encoding.fromUtf8(await this.enigmautils.decrypt(Encoding.fromBase64(a.key), nonce));
+              a.key = Encoding.fromUtf8(await secretUtils.decrypt(Encoding.fromBase64(a.key), nonce));
             } catch (e) {}
             try {
-              a.value = Encoding.fromUtf8(
-                await this.enigmautils.decrypt(Encoding.fromBase64(a.value), nonce),
-              );
+              a.value = Encoding.fromUtf8(await secretUtils.decrypt(Encoding.fromBase64(a.value), nonce));
             } catch (e) {}
           }
         }
@@ -590,57 +786,241 @@ export class RestClient {
     return logs;
   }
 
-  public async decryptTxsResponse(txsResponse: TxsResponse): Promise<TxsResponse> {
-    if (txsResponse.tx.value.msg.length === 1) {
-      const msg: Msg = txsResponse.tx.value.msg[0];
-
-      let inputMsgEncrypted: Uint8Array;
-      if (msg.type === "wasm/MsgExecuteContract") {
-        inputMsgEncrypted = Encoding.fromBase64((msg as MsgExecuteContract).value.msg);
-      } else if (msg.type === "wasm/MsgInstantiateContract") {
-        inputMsgEncrypted = Encoding.fromBase64((msg as MsgInstantiateContract).value.init_msg);
-      } else {
-        return txsResponse;
+  /**
+   * Decrypts the logs of a transaction. Each log is decrypted with the nonce of the message
+   * with the same msg_index. Logs of messages without a nonce are left untouched.
+   *
+   * @param nonces The encryption nonces of the transaction's messages, indexed by message index
+   * @param secretUtils The key the messages were encrypted with. Defaults to this client's key.
+   */
+  public async decryptLogsByMsgIndex(
+    logs: readonly Log[],
+    nonces: readonly (Uint8Array | undefined)[],
+    secretUtils: SecretUtils = this.enigmautils,
+  ): Promise<readonly Log[]> {
+    for (const log of logs) {
+      const nonce = nonces[log.msg_index];
+      if (nonce) {
+        await this.decryptLogs([log], nonce, secretUtils);
       }
+    }
+    return logs;
+  }
+
+  /**
+   * Decrypts the data field of a transaction.
+   *
+   * The Cosmos SDK concatenates the data of all messages in a transaction, so this only works when a single
+   * message returned data. Every nonce is tried until one succeeds. If none does, the data is returned as is.
+   *
+   * @param nonces The encryption nonces of the messages that may have returned encrypted data
+   * @param secretUtils The key the messages were encrypted with. Defaults to this client's key.
+   */
+  public async decryptTxData(
+    dataField: string | undefined,
+    nonces: readonly (Uint8Array | undefined)[],
+    secretUtils: SecretUtils = this.enigmautils,
+  ): Promise<any> {
+    if (!dataField) {
+      return dataField;
+    }
+    for (const nonce of nonces) {
+      if (!nonce) continue;
+      try {
+        return await this.decryptDataField(dataField, nonce, secretUtils);
+      } catch (e) {}
+    }
+    return dataField;
+  }
 
-      const inputMsgPubkey = inputMsgEncrypted.slice(32, 64);
-      if (Encoding.toBase64(await this.enigmautils.getPubkey()) === Encoding.toBase64(inputMsgPubkey)) {
-        // my pubkey, can decrypt
-        const nonce = inputMsgEncrypted.slice(0, 32);
+  /**
+   * Replaces the encrypted contract error inside of an error message or raw log by its plaintext.
+   * The nonce is picked using the message index reported by the chain.
+   *
+   * @param nonces The encryption nonces of the transaction's messages, indexed by message index
+   * @param secretUtils The key the messages were encrypted with. Defaults to this client's key.
+   */
+  public async decryptErrorMessage(
+    message: string,
+    nonces: readonly (Uint8Array | undefined)[],
+    secretUtils: SecretUtils = this.enigmautils,
+  ): Promise<string> {
+    const contractError = await this.decryptContractError(message, nonces, secretUtils);
+    if (!contractError) {
+      return message;
+    }
+    return message.replace(contractError.ciphertext, contractError.plaintext);
+  }
 
-        // decrypt input
-        const inputMsg = Encoding.fromUtf8(
-          await this.enigmautils.decrypt(inputMsgEncrypted.slice(64), nonce),
-        );
+  /**
+   * Finds and decrypts the encrypted contract error inside of an error message or raw log.
+   *
+   * @returns the base64 encoded ciphertext, its plaintext and the index of the failed message,
+   * or undefined if the message contains no contract error that can be decrypted
+   */
+  public async decryptContractError(
+    message: string,
+    nonces: readonly (Uint8Array | undefined)[],
+    secretUtils: SecretUtils = this.enigmautils,
+  ): Promise<
+    { readonly ciphertext: string; readonly plaintext: string; readonly msgIndex: number } | undefined
+  > {
+    const errorMessageRgx = /contract failed: encrypted: (.+?): failed to execute message; message index: (\d+)/g;
+
+    const rgxMatches = errorMessageRgx.exec(message);
+    if (!Array.isArray(rgxMatches) || rgxMatches.length !== 3) {
+      return undefined;
+    }
 
-        if (msg.type === "wasm/MsgExecuteContract") {
-          (txsResponse.tx.value.msg[0] as MsgExecuteContract).value.msg = inputMsg;
-        } else if (msg.type === "wasm/MsgInstantiateContract") {
-          (txsResponse.tx.value.msg[0] as MsgInstantiateContract).value.init_msg = inputMsg;
-        }
+    const msgIndex = parseInt(rgxMatches[2], 10);
+    const nonce = nonces[msgIndex];
+    if (!nonce) {
+      return undefined;
+    }
 
-        // decrypt output
-        txsResponse.data = await this.decryptDataField(txsResponse.data, nonce);
-        let logs;
-        if (txsResponse.logs) {
-          logs = await this.decryptLogs(txsResponse.logs, nonce);
-          txsResponse = Object.assign({}, txsResponse, { logs: logs });
-        }
+    const errorCipherB64 = rgxMatches[1];
+    const errorCipherBz = Encoding.fromBase64(errorCipherB64);
 
-        // decrypt error
-        const errorMessageRgx = /contract failed: encrypted: (.+?): failed to execute message; message index: 0/g;
+    const errorPlainBz = await secretUtils.decrypt(errorCipherBz, nonce);
 
-        const rgxMatches = errorMessageRgx.exec(txsResponse.raw_log);
-        if (Array.isArray(rgxMatches) && rgxMatches.length === 2) {
-          const errorCipherB64 = rgxMatches[1];
-          const errorCipherBz = Encoding.fromBase64(errorCipherB64);
+    return { ciphertext: errorCipherB64, plaintext: Encoding.fromUtf8(errorPlainBz), msgIndex: msgIndex };
+  }
 
-          const errorPlainBz = await this.enigmautils.decrypt(errorCipherBz, nonce);
+  /**
+   * Decrypts the inputs of all wasm messages that were encrypted with one of this client's keys.
+   *
+   * @returns copies of the messages with decrypted inputs. Messages that were not decrypted are returned as they are.
+   */
+  public async decryptMsgs(msgs: readonly Msg[]): Promise<Msg[]> {
+    const { inputs } = await this.decryptInputs(msgs);
+    return withDecryptedInputs(msgs, inputs);
+  }
 
-          txsResponse.raw_log = txsResponse.raw_log.replace(errorCipherB64, Encoding.fromUtf8(errorPlainBz));
-        }
+  /**
+   * Decrypts a transaction response without modifying it.
+   *
+   * Logs, data and the raw log of the returned copy are decrypted where possible. The decrypted
+   * message inputs and the reason why nothing could be decrypted are found in `decryption`.
+   */
+  public async decryptTx(txsResponse: TxsResponse): Promise<DecryptedTxsResponse> {
+    const msgs = txsResponse.tx.value.msg;
+    const { inputs, nonces, reason, secretUtils, pubkey } = await this.decryptInputs(msgs);
+    if (!secretUtils) {
+      return { ...txsResponse, decryption: { decrypted: false, reason: reason, inputs: inputs } };
+    }
+    // instantiate messages return the plain contract address as data
+    const executeNonces = nonces.filter((_, msgIndex) => isMsgExecuteContract(msgs[msgIndex]));
+
+    // decrypt output
+    const data = await this.decryptTxData(txsResponse.data, executeNonces, secretUtils);
+    const logs = txsResponse.logs
+      ? await this.decryptLogsByMsgIndex(copyLogs(txsResponse.logs), nonces, secretUtils)
+      : undefined;
+
+    // decrypt error
+    let contractError;
+    let errorReason: UndecryptedReason | undefined;
+    try {
+      contractError = await this.decryptContractError(txsResponse.raw_log, nonces, secretUtils);
+    } catch (error) {
+      // e.g. an error that was not encrypted with the nonce of the message index reported by the chain
+      errorReason = UndecryptedReason.DecryptionFailed;
+    }
+    const rawLog = contractError
+      ? txsResponse.raw_log.replace(contractError.ciphertext, contractError.plaintext)
+      : txsResponse.raw_log;
+
+    return {
+      ...txsResponse,
+      data: data,
+      logs: logs as Log[] | undefined,
+      raw_log: rawLog,
+      decryption: {
+        decrypted: true,
+        reason: errorReason,
+        inputs: inputs,
+        error: contractError?.plaintext,
+        pubkey: pubkey,
+      },
+    };
+  }
+
+  /**
+   * Returns a copy of the transaction response in which the message inputs, logs, data
+   * and raw log are decrypted where possible.
+   */
+  public async decryptTxsResponse(txsResponse: TxsResponse): Promise<TxsResponse> {
+    const { decryption, ...decrypted } = await this.decryptTx(txsResponse);
+    if (!decryption.decrypted) {
+      return txsResponse;
+    }
+
+    const msgs = withDecryptedInputs(decrypted.tx.value.msg, decryption.inputs);
+    return { ...decrypted, tx: { ...decrypted.tx, value: { ...decrypted.tx.value, msg: msgs } } };
+  }
+
+  /**
+   * Decrypts the inputs of all wasm messages without modifying the messages.
+   *
+   * The key is picked by the pubkey embedded in the first encrypted input that matches one of this
+   * client's keys. Only inputs encrypted with that key are decrypted.
+   */
+  private async decryptInputs(
+    msgs: readonly Msg[],
+  ): Promise<{
+    readonly inputs: readonly any[];
+    readonly nonces: readonly (Uint8Array | undefined)[];
+    readonly reason?: UndecryptedReason;
+    /** The key the inputs were decrypted with */
+    readonly secretUtils?: SecretUtils;
+    readonly pubkey?: Uint8Array;
+  }> {
+    const keys = new Map<string, SecretUtils>();
+    for (const secretUtils of [this.enigmautils, ...this.keyring]) {
+      const pubkey = Encoding.toBase64(await secretUtils.getPubkey());
+      if (!keys.has(pubkey)) keys.set(pubkey, secretUtils);
+    }
+
+    const inputs: any[] = [];
+    const nonces: (Uint8Array | undefined)[] = [];
+    let reason = UndecryptedReason.NotEncrypted;
+    let pubkey: string | undefined;
+    for (const msg of msgs) {
+      inputs.push(undefined);
+      nonces.push(undefined);
+
+      const inputMsgEncrypted = getEncryptedInput(msg);
+      if (!inputMsgEncrypted) {
+        // not a wasm message with encrypted input
+        continue;
+      }
+      const inputPubkey = Encoding.toBase64(inputMsgEncrypted.slice(32, 64));
+      const key = keys.get(inputPubkey);
+      if (!key || (pubkey !== undefined && pubkey !== inputPubkey)) {
+        // not encrypted with one of my pubkeys, can't decrypt
+        if (reason === UndecryptedReason.NotEncrypted) reason = UndecryptedReason.OtherKey;
+        continue;
+      }
+
+      const nonce = inputMsgEncrypted.slice(0, 32);
+      try {
+        inputs[inputs.length - 1] = parseDecryptedInput(
+          await key.decrypt(inputMsgEncrypted.slice(64), nonce),
+        );
+      } catch (error) {
+        reason = UndecryptedReason.DecryptionFailed;
+        continue;
       }
+      nonces[nonces.length - 1] = nonce;
+      pubkey = inputPubkey;
     }
-    return txsResponse;
+
+    if (pubkey === undefined) return { inputs: inputs, nonces: nonces, reason: reason };
+    return {
+      inputs: inputs,
+      nonces: nonces,
+      secretUtils: keys.get(pubkey),
+      pubkey: Encoding.fromBase64(pubkey),
+    };
   }
 }
@@ -0,0 +1,110 @@
+import { makeArbitrarySignDoc } from "./adr36";
+import { Secp256k1Pen } from "./pen";
+import {
+  KeyValueStorage,
+  loadOrCreateSeed,
+  LocalStorageSeedStore,
+  MemorySeedStore,
+  seedFromMnemonic,
+  seedFromSignature,
+  seedFromSigner,
+  seedSignData,
+} from "./seedstore";
+import { faucet, makeRandomAddress } from "./testutils.spec";
+import { Secp256k1Wallet } from "./wallet";
+
+describe("seedstore", () => {
+  const seed1 = new Uint8Array(32).fill(0x11);
+  const seed2 = new Uint8Array(32).fill(0x22);
+
+  describe("MemorySeedStore", () => {
+    it("stores seeds by address", async () => {
+      const store = new MemorySeedStore();
+      const address1 = makeRandomAddress();
+      const address2 = makeRandomAddress();
+
+      expect(await store.get(address1)).toBeUndefined();
+      await store.set(address1, seed1);
+      await store.set(address2, seed2);
+      expect(await store.get(address1)).toEqual(seed1);
+      expect(await store.get(address2)).toEqual(seed2);
+
+      await store.delete(address1);
+      expect(await store.get(address1)).toBeUndefined();
+      expect(await store.get(address2)).toEqual(seed2);
+    });
+  });
+
+  describe("LocalStorageSeedStore", () => {
+    function makeStorage(): KeyValueStorage & { readonly items: Map<string, string> } {
+      const items = new Map<string, string>();
+      return {
+        items: items,
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => items.set(key, value),
+        removeItem: (key) => items.delete(key),
+      };
+    }
+
+    it("stores hex encoded seeds under a prefix", async () => {
+      const storage = makeStorage();
+      const store = new LocalStorageSeedStore(storage, "test/");
+      const address = makeRandomAddress();
+
+      expect(await store.get(address)).toBeUndefined();
+      await store.set(address, seed1);
+      expect(storage.items.get(`test/${address}`)).toEqual("11".repeat(32));
+      expect(await new LocalStorageSeedStore(storage, "test/").get(address)).toEqual(seed1);
+      expect(await new LocalStorageSeedStore(storage).get(address)).toBeUndefined();
+
+      await store.delete(address);
+      expect(storage.items.size).toEqual(0);
+    });
+  });
+
+  describe("loadOrCreateSeed", () => {
+    it("creates a seed once", async () => {
+      const store = new MemorySeedStore();
+      const address = makeRandomAddress();
+
+      const seed = await loadOrCreateSeed(store, address);
+      expect(seed.length).toEqual(32);
+      expect(await store.get(address)).toEqual(seed);
+      expect(await loadOrCreateSeed(store, address)).toEqual(seed);
+      expect(await loadOrCreateSeed(store, makeRandomAddress())).not.toEqual(seed);
+    });
+  });
+
+  describe("seedFromMnemonic", () => {
+    it("derives the same seed for the same mnemonic", async () => {
+      const seed = await seedFromMnemonic(faucet.mnemonic);
+      expect(seed.length).toEqual(32);
+      expect(await seedFromMnemonic(faucet.mnemonic)).toEqual(seed);
+      expect(
+        await seedFromMnemonic(
+          "oxygen fall sure lava energy veteran enroll frown question detail include maximum",
+        ),
+      ).not.toEqual(seed);
+    });
+  });
+
+  describe("seedFromSigner", () => {
+    it("derives the same seed for a pen and an OfflineSigner of the same account", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+      const wallet = await Secp256k1Wallet.fromMnemonic(faucet.mnemonic);
+      const [{ address }] = await wallet.getAccounts();
+      const seed = await seedFromSigner(wallet, address);
+      expect(seed.length).toEqual(32);
+      expect(await seedFromSigner(wallet, address)).toEqual(seed);
+      expect(await seedFromSigner(pen, address)).toEqual(seed);
+      expect(seed).not.toEqual(await seedFromMnemonic(faucet.mnemonic));
+    });
+
+    it("derives the seed from the ADR-036 signature of seedSignData", async () => {
+      const wallet = await Secp256k1Wallet.fromMnemonic(faucet.mnemonic);
+      const [{ address }] = await wallet.getAccounts();
+      const { signature } = await wallet.sign(address, makeArbitrarySignDoc(address, seedSignData));
+      expect(seedFromSignature(signature)).toEqual(await seedFromSigner(wallet, address));
+    });
+  });
+});
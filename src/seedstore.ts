@@ -0,0 +1,123 @@
+import { Bip39, EnglishMnemonic, Hmac, Sha256 } from "@iov/crypto";
+import { Encoding } from "@iov/encoding";
+
+import { signArbitrary } from "./adr36";
+import EnigmaUtils from "./enigmautils";
+import { Pen } from "./pen";
+import { StdSignature } from "./types";
+import { OfflineSigner } from "./wallet";
+
+/**
+ * Stores the seeds that the tx encryption keys of addresses are generated from.
+ *
+ * Transactions can only be decrypted with the seed they were encrypted with, so a seed must be kept
+ * as long as the transaction history of its address should stay readable.
+ */
+export interface SeedStore {
+  readonly get: (address: string) => Promise<Uint8Array | undefined>;
+  readonly set: (address: string, seed: Uint8Array) => Promise<void>;
+  readonly delete: (address: string) => Promise<void>;
+}
+
+/**
+ * The subset of the Web Storage API used by LocalStorageSeedStore. Implemented by the browser's
+ * localStorage and by LocalStorage of the node-localstorage package.
+ */
+export interface KeyValueStorage {
+  readonly getItem: (key: string) => string | null;
+  readonly setItem: (key: string, value: string) => void;
+  readonly removeItem: (key: string) => void;
+}
+
+export class MemorySeedStore implements SeedStore {
+  private readonly seeds = new Map<string, Uint8Array>();
+
+  public async get(address: string): Promise<Uint8Array | undefined> {
+    return this.seeds.get(address);
+  }
+
+  public async set(address: string, seed: Uint8Array): Promise<void> {
+    this.seeds.set(address, seed);
+  }
+
+  public async delete(address: string): Promise<void> {
+    this.seeds.delete(address);
+  }
+}
+
+/** Keeps seeds in a Web Storage compatible storage, hex encoded under `${prefix}${address}` */
+export class LocalStorageSeedStore implements SeedStore {
+  private readonly storage: KeyValueStorage;
+  private readonly prefix: string;
+
+  public constructor(storage: KeyValueStorage, prefix = "secretjs-seed/") {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  public async get(address: string): Promise<Uint8Array | undefined> {
+    const seed = this.storage.getItem(this.prefix + address);
+    return seed === null ? undefined : Encoding.fromHex(seed);
+  }
+
+  public async set(address: string, seed: Uint8Array): Promise<void> {
+    this.storage.setItem(this.prefix + address, Encoding.toHex(seed));
+  }
+
+  public async delete(address: string): Promise<void> {
+    this.storage.removeItem(this.prefix + address);
+  }
+}
+
+/**
+ * Returns the stored seed of the address. If there is none, a new random seed is generated and stored.
+ *
+ * The seed can be passed to the constructor of CosmWasmClient or SigningCosmWasmClient, e.g.
+ *
+ * ```
+ * const seed = await loadOrCreateSeed(new FileSeedStore("seeds.json", password), address);
+ * const client = new SigningCosmWasmClient(apiUrl, address, signer, seed);
+ * ```
+ */
+export async function loadOrCreateSeed(store: SeedStore, address: string): Promise<Uint8Array> {
+  const stored = await store.get(address);
+  if (stored) return stored;
+
+  const seed = EnigmaUtils.GenerateNewSeed();
+  await store.set(address, seed);
+  return seed;
+}
+
+/**
+ * Derives a seed from a BIP39 mnemonic, so the same wallet gets the same tx encryption key on every
+ * device without storing anything.
+ *
+ * The seed is HMAC-SHA256 of the BIP39 seed, which makes it independent from the keys of the wallet.
+ */
+export async function seedFromMnemonic(mnemonic: string): Promise<Uint8Array> {
+  const bip39Seed = await Bip39.mnemonicToSeed(new EnglishMnemonic(mnemonic));
+  return new Hmac(Sha256, Encoding.toUtf8("secretjs tx encryption seed")).update(bip39Seed).digest();
+}
+
+/** The data that is signed as specified by ADR-036 to derive a seed from a wallet */
+export const seedSignData = "Create a secretjs tx encryption seed";
+
+/**
+ * Derives a seed from a signature of seedSignData, i.e. a signature of
+ * `makeArbitrarySignDoc(address, seedSignData)`. This allows wallets that do not expose their
+ * mnemonic to get the same seed on every device.
+ *
+ * The signature must be deterministic, which is the case for RFC 6979 secp256k1 signatures as created
+ * by Secp256k1Pen and Secp256k1Wallet.
+ */
+export function seedFromSignature(signature: StdSignature): Uint8Array {
+  return new Sha256(Encoding.fromBase64(signature.signature)).digest();
+}
+
+/**
+ * Signs seedSignData with the pen or OfflineSigner of the address and derives a seed from the
+ * signature. Both kinds of signers get the same seed for the same account.
+ */
+export async function seedFromSigner(signer: Pen | OfflineSigner, address: string): Promise<Uint8Array> {
+  return seedFromSignature(await signArbitrary(signer, address, seedSignData));
+}
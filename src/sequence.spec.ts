@@ -1,4 +1,7 @@
-import { findSequenceForSignedTx } from "./sequence";
+import { sleep } from "@iov/utils";
+
+import { BroadcastTxError } from "./errors";
+import { findSequenceForSignedTx, SequenceManager } from "./sequence";
 import response1 from "./testdata/txresponse1.json";
 import response2 from "./testdata/txresponse2.json";
 import response3 from "./testdata/txresponse3.json";
@@ -27,4 +30,95 @@ describe("sequence", () => {
       expect(await findSequenceForSignedTx(response1.tx, chainId, accountNumber, 10)).toBeUndefined();
     });
   });
+
+  describe("SequenceManager", () => {
+    const sequenceMismatch = new BroadcastTxError(
+      4,
+      "sdk",
+      "ABCD",
+      "unauthorized: signature verification failed; verify correct account sequence and chain-id",
+    );
+
+    it("hands out increasing sequences and fetches the nonce once", async () => {
+      const fetchNonce = jasmine.createSpy().and.resolveTo({ accountNumber: 7, sequence: 3 });
+      const manager = new SequenceManager(fetchNonce);
+
+      const sequences = await Promise.all(
+        [1, 2, 3].map(async () => manager.submit(async ({ sequence }) => sequence)),
+      );
+      expect(sequences).toEqual([3, 4, 5]);
+      expect(await manager.submit(async (nonce) => nonce)).toEqual({ accountNumber: 7, sequence: 6 });
+      expect(fetchNonce).toHaveBeenCalledTimes(1);
+    });
+
+    it("runs one submission at a time", async () => {
+      const manager = new SequenceManager(async () => ({ accountNumber: 7, sequence: 3 }));
+      const events = new Array<string>();
+      const send = async ({ sequence }: { readonly sequence: number }): Promise<void> => {
+        events.push(`start ${sequence}`);
+        await sleep(10);
+        events.push(`end ${sequence}`);
+      };
+
+      await Promise.all([manager.submit(send), manager.submit(send)]);
+      expect(events).toEqual(["start 3", "end 3", "start 4", "end 4"]);
+    });
+
+    it("resyncs and retries once on a sequence mismatch", async () => {
+      const fetchNonce = jasmine
+        .createSpy()
+        .and.returnValues(
+          Promise.resolve({ accountNumber: 7, sequence: 3 }),
+          Promise.resolve({ accountNumber: 7, sequence: 5 }),
+        );
+      const manager = new SequenceManager(fetchNonce);
+      const usedSequences = new Array<number>();
+
+      const result = await manager.submit(async ({ sequence }) => {
+        usedSequences.push(sequence);
+        if (sequence === 3) throw sequenceMismatch;
+        return "ok";
+      });
+      expect(result).toEqual("ok");
+      expect(usedSequences).toEqual([3, 5]);
+      expect(await manager.submit(async ({ sequence }) => sequence)).toEqual(6);
+      expect(fetchNonce).toHaveBeenCalledTimes(2);
+    });
+
+    it("resyncs after other errors without retrying", async () => {
+      const fetchNonce = jasmine.createSpy().and.resolveTo({ accountNumber: 7, sequence: 3 });
+      const manager = new SequenceManager(fetchNonce);
+      const send = jasmine.createSpy().and.rejectWith(new Error("connection refused"));
+
+      await manager.submit(send).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/connection refused/),
+      );
+      expect(send).toHaveBeenCalledTimes(1);
+
+      // the queue goes on after a failure
+      expect(await manager.submit(async ({ sequence }) => sequence)).toEqual(3);
+      expect(fetchNonce).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives up after the second sequence mismatch", async () => {
+      const manager = new SequenceManager(async () => ({ accountNumber: 7, sequence: 3 }));
+      const send = jasmine.createSpy().and.rejectWith(sequenceMismatch);
+
+      await manager.submit(send).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toBe(sequenceMismatch),
+      );
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it("can be reset", async () => {
+      const fetchNonce = jasmine.createSpy().and.resolveTo({ accountNumber: 7, sequence: 3 });
+      const manager = new SequenceManager(fetchNonce);
+      expect(await manager.submit(async ({ sequence }) => sequence)).toEqual(3);
+      manager.reset();
+      expect(await manager.submit(async ({ sequence }) => sequence)).toEqual(3);
+      expect(fetchNonce).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -1,6 +1,8 @@
 import { Secp256k1, Secp256k1Signature, Sha256 } from "@iov/crypto";
 
+import { GetNonceResult } from "./cosmwasmclient";
 import { makeSignBytes } from "./encoding";
+import { BroadcastTxError } from "./errors";
 import { decodeSignature } from "./signature";
 import { CosmosSdkTx } from "./types";
 
@@ -44,3 +46,68 @@ export async function findSequenceForSignedTx(
   }
   return undefined;
 }
+
+/** A transaction that was rejected because it was signed with an outdated or future sequence */
+function isSequenceMismatch(error: Error): boolean {
+  return error instanceof BroadcastTxError && /account sequence/i.test(error.log);
+}
+
+/**
+ * Hands out account sequences for the transactions of one account locally, so that multiple
+ * transactions can be sent without waiting for the previous ones to be committed.
+ *
+ * Submissions are queued and run one at a time. The account number and sequence are fetched
+ * when the first transaction is submitted and after every failed submission. A submission that
+ * failed because of a sequence mismatch is retried once with the resynced sequence.
+ */
+export class SequenceManager {
+  private readonly fetchNonce: () => Promise<GetNonceResult>;
+  private nonce: GetNonceResult | undefined;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param fetchNonce Gets the account number and sequence of the account from the chain
+   */
+  public constructor(fetchNonce: () => Promise<GetNonceResult>) {
+    this.fetchNonce = fetchNonce;
+  }
+
+  /**
+   * Runs `send` with the next sequence once all earlier submissions are done.
+   *
+   * @param send Signs and broadcasts a transaction. The sequence counts as used once this resolves.
+   */
+  public async submit<T>(send: (nonce: GetNonceResult) => Promise<T>): Promise<T> {
+    const result = this.queue.then(async () => {
+      try {
+        return await this.sendWithNextSequence(send);
+      } catch (error) {
+        if (!isSequenceMismatch(error)) throw error;
+        return this.sendWithNextSequence(send);
+      }
+    });
+    this.queue = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
+  /** Forgets the local sequence, e.g. after transactions were sent by another client */
+  public reset(): void {
+    this.nonce = undefined;
+  }
+
+  private async sendWithNextSequence<T>(send: (nonce: GetNonceResult) => Promise<T>): Promise<T> {
+    const nonce = this.nonce || (await this.fetchNonce());
+    try {
+      const result = await send(nonce);
+      this.nonce = { accountNumber: nonce.accountNumber, sequence: nonce.sequence + 1 };
+      return result;
+    } catch (error) {
+      // We cannot tell if the sequence was used, so ask the chain next time
+      this.nonce = undefined;
+      throw error;
+    }
+  }
+}
@@ -1,9 +1,22 @@
 import { Encoding } from "@iov/encoding";
 
-import { decodeSignature, encodeSecp256k1Signature } from "./signature";
+import { Secp256k1Pen } from "./pen";
+import {
+  decodeSignature,
+  encodeEd25519Signature,
+  encodeSecp256k1Signature,
+  verifySignature,
+} from "./signature";
 import { StdSignature } from "./types";
 
-const { fromBase64 } = Encoding;
+const { fromBase64, fromHex, toAscii, toBase64 } = Encoding;
+
+// Test vector 2 of RFC 8032, section 7.1
+const ed25519Pubkey = fromHex("3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c");
+const ed25519Message = fromHex("72");
+const ed25519Signature = fromHex(
+  "92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00",
+);
 
 describe("signature", () => {
   describe("encodeSecp256k1Signature", () => {
@@ -48,6 +61,25 @@ describe("signature", () => {
     });
   });
 
+  describe("encodeEd25519Signature", () => {
+    it("encodes a full signature", () => {
+      expect(encodeEd25519Signature(ed25519Pubkey, ed25519Signature)).toEqual({
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        pub_key: {
+          type: "tendermint/PubKeyEd25519",
+          value: toBase64(ed25519Pubkey),
+        },
+        signature: toBase64(ed25519Signature),
+      });
+    });
+
+    it("throws for signatures of the wrong length", () => {
+      expect(() => encodeEd25519Signature(ed25519Pubkey, ed25519Signature.slice(1))).toThrowError(
+        /signature must be 64 bytes long/i,
+      );
+    });
+  });
+
   describe("decodeSignature", () => {
     it("works for secp256k1", () => {
       const signature: StdSignature = {
@@ -65,5 +97,30 @@ describe("signature", () => {
         ),
       });
     });
+
+    it("works for ed25519", () => {
+      const signature = encodeEd25519Signature(ed25519Pubkey, ed25519Signature);
+      expect(decodeSignature(signature)).toEqual({
+        pubkey: ed25519Pubkey,
+        signature: ed25519Signature,
+      });
+    });
+  });
+
+  describe("verifySignature", () => {
+    it("works for secp256k1", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(
+        "special sign fit simple patrol salute grocery chicken wheat radar tonight ceiling",
+      );
+      const signature = await pen.sign(toAscii("foo bar"));
+      expect(await verifySignature(signature, toAscii("foo bar"))).toEqual(true);
+      expect(await verifySignature(signature, toAscii("foo baz"))).toEqual(false);
+    });
+
+    it("works for ed25519", async () => {
+      const signature = encodeEd25519Signature(ed25519Pubkey, ed25519Signature);
+      expect(await verifySignature(signature, ed25519Message)).toEqual(true);
+      expect(await verifySignature(signature, fromHex("73"))).toEqual(false);
+    });
   });
 });
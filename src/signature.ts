@@ -1,6 +1,7 @@
+import { Ed25519, Secp256k1, Secp256k1Signature, Sha256 } from "@iov/crypto";
 import { Encoding } from "@iov/encoding";
 
-import { encodeSecp256k1Pubkey } from "./pubkey";
+import { encodeEd25519Pubkey, encodeSecp256k1Pubkey } from "./pubkey";
 import { pubkeyType, StdSignature } from "./types";
 
 /**
@@ -23,12 +24,31 @@ export function encodeSecp256k1Signature(pubkey: Uint8Array, signature: Uint8Arr
   };
 }
 
+/**
+ * Takes a binary pubkey and signature to create a signature object
+ *
+ * @param pubkey a 32 byte ed25519 public key
+ * @param signature a 64 byte ed25519 signature
+ */
+export function encodeEd25519Signature(pubkey: Uint8Array, signature: Uint8Array): StdSignature {
+  if (signature.length !== 64) {
+    throw new Error("Signature must be 64 bytes long");
+  }
+
+  return {
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    pub_key: encodeEd25519Pubkey(pubkey),
+    signature: Encoding.toBase64(signature),
+  };
+}
+
 export function decodeSignature(
   signature: StdSignature,
 ): { readonly pubkey: Uint8Array; readonly signature: Uint8Array } {
   switch (signature.pub_key.type) {
     // Note: please don't add cases here without writing additional unit tests
     case pubkeyType.secp256k1:
+    case pubkeyType.ed25519:
       return {
         pubkey: Encoding.fromBase64(signature.pub_key.value),
         signature: Encoding.fromBase64(signature.signature),
@@ -37,3 +57,25 @@ export function decodeSignature(
       throw new Error("Unsupported pubkey type");
   }
 }
+
+/**
+ * Verifies a signature over the given bytes, e.g. the sign bytes of a transaction.
+ *
+ * Secp256k1 signatures are verified over the sha256 hash of the bytes as created by
+ * `Secp256k1Pen`, ed25519 signatures over the bytes themselves as created by `Ed25519Pen`.
+ */
+export async function verifySignature(signature: StdSignature, signBytes: Uint8Array): Promise<boolean> {
+  const { pubkey, signature: signatureBytes } = decodeSignature(signature);
+  switch (signature.pub_key.type) {
+    case pubkeyType.secp256k1:
+      return Secp256k1.verifySignature(
+        Secp256k1Signature.fromFixedLength(signatureBytes),
+        new Sha256(signBytes).digest(),
+        pubkey,
+      );
+    case pubkeyType.ed25519:
+      return Ed25519.verifySignature(signatureBytes, signBytes, pubkey);
+    default:
+      throw new Error("Unsupported pubkey type");
+  }
+}
@@ -3,13 +3,15 @@ import { Encoding } from "@iov/encoding";
 import { assert } from "@iov/utils";
 
 import { PrivateCosmWasmClient } from "./cosmwasmclient";
+import { BroadcastTxError, ContractExecutionError, HttpError } from "./errors";
 import { Secp256k1Pen } from "./pen";
-import { RestClient } from "./restclient";
-import { SigningCosmWasmClient, UploadMeta } from "./signingcosmwasmclient";
-import { getHackatom, makeRandomAddress, pendingWithoutWasmd } from "./testutils.spec";
-import { Coin } from "./types";
+import { BroadcastMode, RestClient, TxsResponse } from "./restclient";
+import { findSequenceForSignedTx } from "./sequence";
+import { MsgBatch, SigningCosmWasmClient, UploadMeta } from "./signingcosmwasmclient";
+import { getHackatom, makeNoopSecretUtils, makeRandomAddress, pendingWithoutWasmd } from "./testutils.spec";
+import { Coin, Msg, MsgExecuteContract, StdTx } from "./types";
 
-const { toHex } = Encoding;
+const { fromHex, toAscii, toBase64, toHex, toUtf8 } = Encoding;
 
 const httpUrl = "http://localhost:1317";
 
@@ -23,6 +25,35 @@ const faucet = {
   address: "cosmos1pkptre7fdkl6gfrzlesjjvhxhlc3r4gmmk8rs6",
 };
 
+describe("MsgBatch", () => {
+  it("tracks nonces of encrypted messages by message index", () => {
+    const batch = new MsgBatch(faucet.address, new RestClient(httpUrl));
+    const nonce = fromHex("0102030405060708091011121314151617181920212223242526272829303132");
+    const pubkey = new Uint8Array(32).fill(0xaa);
+    const executeMsg: MsgExecuteContract = {
+      type: "wasm/MsgExecuteContract",
+      value: {
+        sender: faucet.address,
+        contract: makeRandomAddress(),
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        callback_code_hash: "",
+        msg: toBase64(Uint8Array.from([...nonce, ...pubkey, 0xde, 0xad, 0xbe, 0xef])),
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        sent_funds: [],
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        callback_sig: null,
+      },
+    };
+
+    expect(batch.addSend(makeRandomAddress(), [{ amount: "1", denom: "ucosm" }])).toEqual(0);
+    expect(batch.add(executeMsg)).toEqual(1);
+
+    expect(batch.getMsgs().length).toEqual(2);
+    expect(batch.getNonce(0)).toBeUndefined();
+    expect(batch.getNonce(1)).toEqual(nonce);
+  });
+});
+
 describe("SigningCosmWasmClient", () => {
   describe("makeReadOnly", () => {
     it("can be constructed", async () => {
@@ -50,6 +81,359 @@ describe("SigningCosmWasmClient", () => {
     });
   });
 
+  describe("simulate", () => {
+    it("returns the gas used by the simulation", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+      const client = new SigningCosmWasmClient(httpUrl, faucet.address, (signBytes) => pen.sign(signBytes));
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(client, "getChainId").and.resolveTo("testing");
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      const simulateSpy = spyOn(openedClient.restClient, "simulate").and.resolveTo({ gas_estimate: "54321" });
+
+      const batch = client.createBatch();
+      batch.addSend(makeRandomAddress(), [{ amount: "1", denom: "ucosm" }]);
+      expect(await client.simulate(batch.getMsgs(), "a memo")).toEqual(54321);
+
+      expect(simulateSpy).toHaveBeenCalledTimes(1);
+      expect(simulateSpy).toHaveBeenCalledWith(batch.getMsgs(), "testing", "a memo");
+    });
+
+    it("simulates a batch as one transaction", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+      const client = new SigningCosmWasmClient(httpUrl, faucet.address, (signBytes) => pen.sign(signBytes));
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(client, "getChainId").and.resolveTo("testing");
+      const postSpy = spyOn(openedClient.restClient, "post");
+
+      const batch = client.createBatch();
+      batch.addSend(makeRandomAddress(), [{ amount: "1", denom: "ucosm" }]);
+      batch.addSend(makeRandomAddress(), [{ amount: "2", denom: "ucosm" }]);
+      // the node cannot simulate transactions with multiple messages
+      await client.simulate(batch.getMsgs()).then(
+        () => fail("must not succeed"),
+        (error) => expect(error).toMatch(/only transactions with a single message can be simulated, got 2/i),
+      );
+      expect(postSpy).not.toHaveBeenCalled();
+    });
+
+    it("throws a ContractExecutionError with the decrypted contract error", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+      const client = new SigningCosmWasmClient(
+        httpUrl,
+        faucet.address,
+        (signBytes) => pen.sign(signBytes),
+        makeNoopSecretUtils(),
+      );
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(client, "getChainId").and.resolveTo("testing");
+      spyOn(openedClient.restClient, "getCodeHashByContractAddr").and.resolveTo("ab".repeat(32));
+      const errorCiphertext = toBase64(toUtf8("insufficient allowance"));
+      const simulationError = new HttpError(
+        500,
+        `execute wasm contract failed: contract failed: encrypted: ${errorCiphertext}: failed to execute message; message index: 0`,
+      );
+      spyOn(openedClient.restClient, "simulate").and.rejectWith(simulationError);
+
+      const batch = client.createBatch();
+      await batch.addExecute(makeRandomAddress(), { transfer_from: {} });
+      await client.simulate(batch.getMsgs()).then(
+        () => fail("must not succeed"),
+        (error) => {
+          expect(error).toEqual(jasmine.any(ContractExecutionError));
+          expect(error.msgIndex).toEqual(0);
+          expect(error.decryptedMessage).toEqual("insufficient allowance");
+          expect(error.encryptedMessage).toEqual(errorCiphertext);
+          expect(error.cause).toBe(simulationError);
+        },
+      );
+    });
+  });
+
+  describe("signAndPost", () => {
+    const txhash = "3F3B87DDA0DDCC6AC7DCE2AF1BC22E1DDAE4D2C3C44ADB4BB08FE0458A8B2F0C";
+    const fee = {
+      amount: [{ amount: "5000", denom: "ucosm" }],
+      gas: "890000",
+    };
+
+    async function makeSyncClient(): Promise<SigningCosmWasmClient> {
+      const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+      const client = new SigningCosmWasmClient(
+        httpUrl,
+        faucet.address,
+        (signBytes) => pen.sign(signBytes),
+        makeNoopSecretUtils(),
+        undefined,
+        BroadcastMode.Sync,
+      );
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(openedClient.restClient, "getCodeHashByContractAddr").and.resolveTo("ab".repeat(32));
+      spyOn(client, "getChainId").and.resolveTo("testing");
+      spyOn(client, "getNonce").and.resolveTo({ accountNumber: 1, sequence: 2 });
+      return client;
+    }
+
+    /** Lets the node accept every transaction and returns the broadcast transactions */
+    function acceptTxs(client: SigningCosmWasmClient): StdTx[] {
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const postedTxs = new Array<StdTx>();
+      spyOn(openedClient.restClient, "postTx").and.callFake(async (tx: StdTx) => {
+        postedTxs.push(tx);
+        return { height: "0", txhash: txhash, data: "" };
+      });
+      return postedTxs;
+    }
+
+    function makeTxsResponse(msgs: readonly Msg[], fields: Partial<TxsResponse> = {}): TxsResponse {
+      return {
+        height: "1234",
+        txhash: txhash,
+        raw_log: "[]",
+        data: "",
+        logs: [],
+        tx: {
+          type: "cosmos-sdk/StdTx",
+          value: { msg: [...msgs], fee: fee, memo: "", signatures: [] },
+        },
+        timestamp: "2020-02-15T10:39:10.4696305Z",
+        ...fields,
+      };
+    }
+
+    it("returns the hash without waiting for the transaction", async () => {
+      const client = await makeSyncClient();
+      const postedTxs = acceptTxs(client);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const txByIdSpy = spyOn(openedClient.restClient, "txById");
+
+      const batch = client.createBatch();
+      batch.addSend(makeRandomAddress(), [{ amount: "1", denom: "ucosm" }]);
+      expect(await client.signAndPost(batch.getMsgs(), fee, "a memo")).toEqual(txhash);
+
+      expect(postedTxs.length).toEqual(1);
+      expect(postedTxs[0].msg).toEqual([...batch.getMsgs()]);
+      expect(postedTxs[0].memo).toEqual("a memo");
+      expect(txByIdSpy).not.toHaveBeenCalled();
+    });
+
+    it("can wait for the decrypted result of an execution", async () => {
+      const client = await makeSyncClient();
+      const postedTxs = acceptTxs(client);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+
+      const contractAddress = makeRandomAddress();
+      const batch = client.createBatch();
+      await batch.addExecute(contractAddress, { release: {} });
+      const hash = await client.signAndPost(batch.getMsgs(), fee);
+
+      const txByIdSpy = spyOn(openedClient.restClient, "txById").and.callFake(async () => {
+        if (txByIdSpy.calls.count() === 1) {
+          throw new HttpError(404, `Tx: response error: RPC error -32603 - not found`);
+        }
+        return makeTxsResponse(postedTxs[0].msg, {
+          data: toHex(toUtf8(toBase64(toAscii("released")))),
+          logs: [
+            {
+              msg_index: 0,
+              log: "",
+              events: [
+                {
+                  type: "wasm",
+                  attributes: [
+                    { key: toBase64(toUtf8("contract_address")), value: contractAddress },
+                    { key: toBase64(toUtf8("action")), value: toBase64(toUtf8("release")) },
+                  ],
+                },
+              ],
+            },
+          ],
+        });
+      });
+
+      const result = await client.waitForExecute(hash, { pollInterval: 10 });
+      expect(result.transactionHash).toEqual(txhash);
+      expect(result.data).toEqual(toAscii("released"));
+      expect(result.logs[0].events[0].attributes).toContain({ key: "action", value: "release" });
+    });
+
+    it("can wait for an upload", async () => {
+      const client = await makeSyncClient();
+      const postedTxs = acceptTxs(client);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+
+      const wasm = getHackatom();
+      const batch = client.createBatch();
+      batch.addUpload(wasm);
+      const hash = await client.signAndPost(batch.getMsgs(), fee);
+
+      spyOn(openedClient.restClient, "txById").and.resolveTo(
+        makeTxsResponse(postedTxs[0].msg, {
+          logs: [
+            {
+              msg_index: 0,
+              log: "",
+              events: [{ type: "message", attributes: [{ key: "code_id", value: "42" }] }],
+            },
+          ],
+        }),
+      );
+
+      const result = await client.waitForUpload(hash);
+      expect(result.codeId).toEqual(42);
+      expect(result.originalSize).toEqual(wasm.length);
+      expect(result.originalChecksum).toEqual(toHex(new Sha256(wasm).digest()));
+      expect(result.compressedSize).toBeLessThan(wasm.length * 0.5);
+    });
+
+    it("throws a ContractExecutionError when a waited for execution failed", async () => {
+      const client = await makeSyncClient();
+      const postedTxs = acceptTxs(client);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+
+      const batch = client.createBatch();
+      batch.addSend(makeRandomAddress(), [{ amount: "1", denom: "ucosm" }]);
+      await batch.addExecute(makeRandomAddress(), { transfer_from: {} });
+      const hash = await client.signAndPost(batch.getMsgs(), fee);
+
+      const errorCiphertext = toBase64(toUtf8("insufficient allowance"));
+      spyOn(openedClient.restClient, "txById").and.resolveTo(
+        makeTxsResponse(postedTxs[0].msg, {
+          code: 3,
+          codespace: "wasm",
+          raw_log: `execute wasm contract failed: contract failed: encrypted: ${errorCiphertext}: failed to execute message; message index: 1`,
+        }),
+      );
+
+      await client.waitForExecute(hash).then(
+        () => fail("must not succeed"),
+        (error) => {
+          expect(error).toEqual(jasmine.any(ContractExecutionError));
+          expect(error.msgIndex).toEqual(1);
+          expect(error.decryptedMessage).toEqual("insufficient allowance");
+          expect(error.cause).toEqual(jasmine.any(BroadcastTxError));
+          expect(error.cause.txhash).toEqual(txhash);
+        },
+      );
+    });
+
+    it("signs concurrent transactions with increasing sequences", async () => {
+      const client = await makeSyncClient();
+      const postedTxs = acceptTxs(client);
+
+      const msgs = await Promise.all(
+        [1, 2, 3].map(async () => {
+          const batch = client.createBatch();
+          await batch.addExecute(makeRandomAddress(), { release: {} });
+          return batch.getMsgs();
+        }),
+      );
+      await Promise.all(msgs.map(async (m) => client.signAndPost(m, fee)));
+
+      expect(client.getNonce).toHaveBeenCalledTimes(1);
+      const sequences = await Promise.all(
+        postedTxs.map(async (tx) =>
+          findSequenceForSignedTx({ type: "cosmos-sdk/StdTx", value: tx }, "testing", 1, 10),
+        ),
+      );
+      expect(sequences).toEqual([2, 3, 4]);
+    });
+
+    it("estimates the fee of an upload", async () => {
+      const client = await makeSyncClient();
+      const postedTxs = acceptTxs(client);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      const simulateSpy = spyOn(openedClient.restClient, "simulate").and.resolveTo({
+        gas_estimate: "800000",
+      });
+      spyOn(openedClient.restClient, "txById").and.callFake(async () =>
+        makeTxsResponse(postedTxs[0].msg, {
+          logs: [
+            {
+              msg_index: 0,
+              log: "",
+              events: [{ type: "message", attributes: [{ key: "code_id", value: "42" }] }],
+            },
+          ],
+        }),
+      );
+
+      const result = await client.upload(getHackatom(), {}, "", "auto");
+      expect(result.codeId).toEqual(42);
+      expect(simulateSpy).toHaveBeenCalledWith(postedTxs[0].msg, "testing", "");
+      expect(postedTxs[0].msg[0].type).toEqual("wasm/MsgStoreCode");
+      expect(postedTxs[0].fee.gas).toEqual("1040000");
+    });
+
+    it("estimates the fee of an instantiation", async () => {
+      const client = await makeSyncClient();
+      const postedTxs = acceptTxs(client);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(openedClient.restClient, "getCodeHashByCodeId").and.resolveTo("ab".repeat(32));
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      const simulateSpy = spyOn(openedClient.restClient, "simulate").and.resolveTo({
+        gas_estimate: "100000",
+      });
+      const contractAddress = makeRandomAddress();
+      spyOn(openedClient.restClient, "txById").and.callFake(async () =>
+        makeTxsResponse(postedTxs[0].msg, {
+          logs: [
+            {
+              msg_index: 0,
+              log: "",
+              events: [
+                { type: "message", attributes: [{ key: "contract_address", value: contractAddress }] },
+              ],
+            },
+          ],
+        }),
+      );
+
+      const result = await client.instantiate(42, { count: 1 }, "my counter", "", undefined, "auto");
+      expect(result.contractAddress).toEqual(contractAddress);
+      expect(simulateSpy).toHaveBeenCalledWith(postedTxs[0].msg, "testing", "");
+      expect(postedTxs[0].msg[0].type).toEqual("wasm/MsgInstantiateContract");
+      expect(postedTxs[0].fee.gas).toEqual("130000");
+    });
+
+    it("is used by execute in sync mode", async () => {
+      const client = await makeSyncClient();
+      const postedTxs = acceptTxs(client);
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(openedClient.restClient, "txById").and.callFake(async () => makeTxsResponse(postedTxs[0].msg));
+
+      const result = await client.execute(makeRandomAddress(), { release: {} }, "", undefined, fee);
+      expect(result.transactionHash).toEqual(txhash);
+      expect(postedTxs.length).toEqual(1);
+    });
+  });
+
+  describe("estimateFee", () => {
+    it("applies multiplier and gas price", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+      const client = new SigningCosmWasmClient(
+        httpUrl,
+        faucet.address,
+        (signBytes) => pen.sign(signBytes),
+        undefined,
+        undefined,
+        undefined,
+        { multiplier: 1.5, gasPrice: "0.025ucosm" },
+      );
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      spyOn(client, "getChainId").and.resolveTo("testing");
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      spyOn(openedClient.restClient, "simulate").and.resolveTo({ gas_estimate: "100001" });
+
+      const batch = client.createBatch();
+      batch.addSend(makeRandomAddress(), [{ amount: "1", denom: "ucosm" }]);
+      expect(await client.estimateFee(batch.getMsgs())).toEqual({
+        amount: [{ amount: "3751", denom: "ucosm" }],
+        gas: "150002",
+      });
+    });
+  });
+
   describe("upload", () => {
     it("works", async () => {
       pendingWithoutWasmd();
@@ -227,4 +611,77 @@ describe("SigningCosmWasmClient", () => {
       expect(after.balance).toEqual(transferAmount);
     });
   });
+
+  describe("signAndBroadcast", () => {
+    it("can send tokens to multiple recipients in one transaction", async () => {
+      pendingWithoutWasmd();
+      const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+      const client = new SigningCosmWasmClient(httpUrl, faucet.address, (signBytes) => pen.sign(signBytes));
+
+      const transferAmount: readonly Coin[] = [
+        {
+          amount: "1234",
+          denom: "ucosm",
+        },
+      ];
+      const beneficiaryAddress1 = makeRandomAddress();
+      const beneficiaryAddress2 = makeRandomAddress();
+
+      const batch = client.createBatch();
+      batch.addSend(beneficiaryAddress1, transferAmount);
+      batch.addSend(beneficiaryAddress2, transferAmount);
+      const fee = {
+        amount: [{ amount: "4000", denom: "ucosm" }],
+        gas: "160000",
+      };
+      const result = await client.signAndBroadcast(batch.getMsgs(), fee, "for two dinners");
+      expect(result.logs.map((log) => log.msg_index)).toEqual([0, 1]);
+
+      const after1 = await client.getAccount(beneficiaryAddress1);
+      assert(after1);
+      expect(after1.balance).toEqual(transferAmount);
+      const after2 = await client.getAccount(beneficiaryAddress2);
+      assert(after2);
+      expect(after2.balance).toEqual(transferAmount);
+    });
+
+    it("decrypts logs of every executed contract", async () => {
+      pendingWithoutWasmd();
+      const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+      const client = new SigningCosmWasmClient(httpUrl, faucet.address, (signBytes) => pen.sign(signBytes));
+      const { codeId } = await client.upload(getHackatom());
+
+      const beneficiaryAddress1 = makeRandomAddress();
+      const beneficiaryAddress2 = makeRandomAddress();
+      const { contractAddress: contractAddress1 } = await client.instantiate(
+        codeId,
+        { verifier: faucet.address, beneficiary: beneficiaryAddress1 },
+        "contract 1",
+      );
+      const { contractAddress: contractAddress2 } = await client.instantiate(
+        codeId,
+        { verifier: faucet.address, beneficiary: beneficiaryAddress2 },
+        "contract 2",
+      );
+
+      const batch = client.createBatch();
+      await batch.addExecute(contractAddress1, { release: {} });
+      await batch.addExecute(contractAddress2, { release: {} });
+      const fee = {
+        amount: [{ amount: "10000", denom: "ucosm" }],
+        gas: "400000",
+      };
+      const result = await client.signAndBroadcast(batch.getMsgs(), fee);
+
+      const [firstLog, secondLog] = result.logs;
+      expect(firstLog.events.find((e) => e.type === "wasm")?.attributes).toContain({
+        key: "destination",
+        value: beneficiaryAddress1,
+      });
+      expect(secondLog.events.find((e) => e.type === "wasm")?.attributes).toContain({
+        key: "destination",
+        value: beneficiaryAddress2,
+      });
+    });
+  });
 });
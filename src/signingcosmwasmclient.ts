@@ -3,13 +3,19 @@ import { Encoding } from "@iov/encoding";
 import pako from "pako";
 
 import { isValidBuilder } from "./builder";
-import { Account, CosmWasmClient, GetNonceResult, PostTxResult } from "./cosmwasmclient";
+import { Account, CosmWasmClient, GetNonceResult, PostTxResult, WaitForTxOptions } from "./cosmwasmclient";
 import { makeSignBytes } from "./encoding";
-import { SecretUtils } from "./enigmautils";
-import { findAttribute, Log } from "./logs";
-import { BroadcastMode } from "./restclient";
+import { SecretUtils, X25519Keypair } from "./enigmautils";
+import { BroadcastTxError, ContractExecutionError, DecryptionError } from "./errors";
+import { calculateFee, defaultGasLimits, defaultGasPrice, GasLimits, GasPrice } from "./fee";
+import { findAttribute, Log, parseLogs } from "./logs";
+import { BroadcastMode, getEncryptedInput, RestClient } from "./restclient";
+import { SequenceManager } from "./sequence";
+import { Transport } from "./transport";
 import {
   Coin,
+  isMsgExecuteContract,
+  isMsgStoreCode,
   Msg,
   MsgExecuteContract,
   MsgInstantiateContract,
@@ -19,21 +25,32 @@ import {
   StdSignature,
   StdTx,
 } from "./types";
+import { ViewingKeyStore } from "./viewingkeystore";
 import { OfflineSigner } from "./wallet";
 
 export interface SigningCallback {
   (signBytes: Uint8Array): Promise<StdSignature>;
 }
 
+/**
+ * The fees used for the different operations. A fee of "auto" means the gas limit is estimated
+ * by simulating the transaction, see AutoFeeOptions.
+ */
 export interface FeeTable {
-  readonly upload: StdFee;
-  readonly init: StdFee;
-  readonly exec: StdFee;
-  readonly send: StdFee;
+  readonly upload: StdFee | "auto";
+  readonly init: StdFee | "auto";
+  readonly exec: StdFee | "auto";
+  readonly send: StdFee | "auto";
 }
 
-function singleAmount(amount: number, denom: string): readonly Coin[] {
-  return [{ amount: amount.toString(), denom: denom }];
+/** Settings used to calculate the fees of the different operations */
+export interface FeeOptions {
+  /** The price of one unit of gas, e.g. "0.25uscrt" */
+  readonly gasPrice?: GasPrice | string;
+  /** The gas limits used for the fees that are not set in the custom fee table */
+  readonly gasLimits?: Partial<GasLimits>;
+  /** For fees of type "auto", the gas used in the simulation is multiplied by this to get the gas limit */
+  readonly multiplier?: number;
 }
 
 function prepareBuilder(buider: string | undefined): string {
@@ -45,24 +62,67 @@ function prepareBuilder(buider: string | undefined): string {
   }
 }
 
-const defaultFees: FeeTable = {
-  upload: {
-    amount: singleAmount(25000, "ucosm"),
-    gas: "1000000", // one million
-  },
-  init: {
-    amount: singleAmount(12500, "ucosm"),
-    gas: "500000", // 500k
-  },
-  exec: {
-    amount: singleAmount(5000, "ucosm"),
-    gas: "200000", // 200k
-  },
-  send: {
-    amount: singleAmount(2000, "ucosm"),
-    gas: "80000", // 80k
-  },
-};
+const defaultMultiplier = 1.3;
+
+function buildFeeTable(gasPrice: GasPrice, gasLimits: GasLimits): FeeTable {
+  return {
+    upload: calculateFee(gasLimits.upload, gasPrice),
+    init: calculateFee(gasLimits.init, gasPrice),
+    exec: calculateFee(gasLimits.exec, gasPrice),
+    send: calculateFee(gasLimits.send, gasPrice),
+  };
+}
+
+/** Returns the encryption nonce of a wasm message or undefined if it is not encrypted */
+function getMsgNonce(msg: Msg): Uint8Array | undefined {
+  const encryptedInput = getEncryptedInput(msg);
+  return encryptedInput ? encryptedInput.slice(0, 32) : undefined;
+}
+
+function getNonces(msgs: readonly Msg[]): readonly (Uint8Array | undefined)[] {
+  return msgs.map(getMsgNonce);
+}
+
+/** Signs a transaction with a signing callback or an OfflineSigner */
+export async function signTx(
+  signer: SigningCallback | OfflineSigner,
+  signerAddress: string,
+  msgs: Msg[],
+  fee: StdFee,
+  chainId: string,
+  memo: string,
+  accountNumber: number,
+  sequence: number,
+): Promise<StdTx> {
+  // offline signer interface
+  if ("sign" in signer) {
+    const signResponse = await signer.sign(signerAddress, {
+      chain_id: chainId,
+      account_number: String(accountNumber),
+      sequence: String(sequence),
+      fee: fee,
+      msgs: msgs,
+      memo: memo,
+    });
+
+    return {
+      msg: msgs,
+      fee: signResponse.signed.fee,
+      memo: signResponse.signed.memo,
+      signatures: [signResponse.signature],
+    };
+  } else {
+    // legacy interface
+    const signBytes = makeSignBytes(msgs, fee, chainId, memo, accountNumber, sequence);
+    const signature = await signer(signBytes);
+    return {
+      msg: msgs,
+      fee: fee,
+      memo: memo,
+      signatures: [signature],
+    };
+  }
+}
 
 export interface UploadMeta {
   /** The source URL */
@@ -103,10 +163,178 @@ export interface ExecuteResult {
   readonly data: any;
 }
 
+function makeUploadResult(msgs: readonly Msg[], result: PostTxResult): UploadResult {
+  const storeCodeMsg = msgs.find(isMsgStoreCode);
+  if (!storeCodeMsg) throw new Error("Transaction does not contain an upload");
+  const compressed = Encoding.fromBase64(storeCodeMsg.value.wasm_byte_code);
+  const wasmCode = pako.ungzip(compressed);
+  const codeIdAttr = findAttribute(result.logs, "message", "code_id");
+  return {
+    originalSize: wasmCode.length,
+    originalChecksum: Encoding.toHex(new Sha256(wasmCode).digest()),
+    compressedSize: compressed.length,
+    compressedChecksum: Encoding.toHex(new Sha256(compressed).digest()),
+    codeId: Number.parseInt(codeIdAttr.value, 10),
+    logs: result.logs,
+    transactionHash: result.transactionHash,
+  };
+}
+
+function makeInstantiateResult(result: PostTxResult): InstantiateResult {
+  const contractAddressAttr = findAttribute(result.logs, "message", "contract_address");
+  return {
+    contractAddress: contractAddressAttr.value,
+    logs: result.logs,
+    transactionHash: result.transactionHash,
+    data: result.data, // data is the address of the new contract, so nothing to decrypt
+  };
+}
+
+function makeExecuteResult(result: PostTxResult): ExecuteResult {
+  return {
+    logs: result.logs,
+    transactionHash: result.transactionHash,
+    data: result.data,
+  };
+}
+
+/**
+ * Collects the messages of a multi-message transaction, which is executed atomically.
+ *
+ * Wasm messages are encrypted when they are added, each with its own nonce. Those nonces are
+ * needed per message index to decrypt the results of each message.
+ */
+export class MsgBatch {
+  private readonly senderAddress: string;
+  private readonly restClient: RestClient;
+  private readonly msgs: Msg[] = [];
+
+  public constructor(senderAddress: string, restClient: RestClient) {
+    this.senderAddress = senderAddress;
+    this.restClient = restClient;
+  }
+
+  public getMsgs(): readonly Msg[] {
+    return this.msgs;
+  }
+
+  /** Returns the encryption nonce of the message at the given index or undefined if it is not encrypted */
+  public getNonce(msgIndex: number): Uint8Array | undefined {
+    const msg = this.msgs[msgIndex];
+    return msg && getMsgNonce(msg);
+  }
+
+  /**
+   * Adds an arbitrary message. Wasm messages must already be encrypted.
+   *
+   * @returns the index of the message in the batch
+   */
+  public add(msg: Msg): number {
+    this.msgs.push(msg);
+    return this.msgs.length - 1;
+  }
+
+  /** Adds a message that uploads the gzip compressed wasm code */
+  public addUpload(wasmCode: Uint8Array, meta: UploadMeta = {}): number {
+    const compressed = pako.gzip(wasmCode, { level: 9 });
+    const storeCodeMsg: MsgStoreCode = {
+      type: "wasm/MsgStoreCode",
+      value: {
+        sender: this.senderAddress,
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        wasm_byte_code: Encoding.toBase64(compressed),
+        source: meta.source || "",
+        builder: prepareBuilder(meta.builder),
+      },
+    };
+    return this.add(storeCodeMsg);
+  }
+
+  public addSend(recipientAddress: string, transferAmount: readonly Coin[]): number {
+    const sendMsg: MsgSend = {
+      type: "cosmos-sdk/MsgSend",
+      value: {
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        from_address: this.senderAddress,
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        to_address: recipientAddress,
+        amount: transferAmount,
+      },
+    };
+    return this.add(sendMsg);
+  }
+
+  /**
+   * Adds an encrypted instantiate message.
+   *
+   * @param contractCodeHash The code hash of the code. Looked up from the chain when not set.
+   */
+  public async addInstantiate(
+    codeId: number,
+    initMsg: object,
+    label: string,
+    transferAmount?: readonly Coin[],
+    contractCodeHash?: string,
+  ): Promise<number> {
+    const codeHash = contractCodeHash || (await this.restClient.getCodeHashByCodeId(codeId));
+    const instantiateMsg: MsgInstantiateContract = {
+      type: "wasm/MsgInstantiateContract",
+      value: {
+        sender: this.senderAddress,
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        code_id: codeId.toString(),
+        label: label,
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        callback_code_hash: "",
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        init_msg: Encoding.toBase64(await this.restClient.enigmautils.encrypt(codeHash, initMsg)),
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        init_funds: transferAmount || [],
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        callback_sig: null,
+      },
+    };
+    return this.add(instantiateMsg);
+  }
+
+  /**
+   * Adds an encrypted execute message.
+   *
+   * @param contractCodeHash The code hash of the contract. Looked up from the chain when not set.
+   */
+  public async addExecute(
+    contractAddress: string,
+    handleMsg: object,
+    transferAmount?: readonly Coin[],
+    contractCodeHash?: string,
+  ): Promise<number> {
+    const codeHash = contractCodeHash || (await this.restClient.getCodeHashByContractAddr(contractAddress));
+    const executeMsg: MsgExecuteContract = {
+      type: "wasm/MsgExecuteContract",
+      value: {
+        sender: this.senderAddress,
+        contract: contractAddress,
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        callback_code_hash: "",
+        msg: Encoding.toBase64(await this.restClient.enigmautils.encrypt(codeHash, handleMsg)),
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        sent_funds: transferAmount || [],
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        callback_sig: null,
+      },
+    };
+    return this.add(executeMsg);
+  }
+}
+
 export class SigningCosmWasmClient extends CosmWasmClient {
   public readonly senderAddress: string;
   private readonly signer: OfflineSigner | SigningCallback;
   private readonly fees: FeeTable;
+  private readonly gasPrice: GasPrice;
+  private readonly multiplier: number;
+  private readonly broadcastMode: BroadcastMode;
+  private readonly sequenceManager: SequenceManager;
 
   /**
    * Creates a new client with signing capability to interact with a CosmWasm blockchain. This is the bigger brother of CosmWasmClient.
@@ -118,8 +346,12 @@ export class SigningCosmWasmClient extends CosmWasmClient {
    * @param senderAddress The address that will sign and send transactions using this instance
    * @param signer An asynchronous callback to create a signature for a given transaction. This can be implemented using secure key stores that require user interaction. Or a newer OfflineSigner type that handles that stuff
    * @param seedOrEnigmaUtils
-   * @param customFees The fees that are paid for transactions
+   * @param customFees The fees that are paid for transactions. Overrides the fees calculated from the fee options.
    * @param broadcastMode Defines at which point of the transaction processing the postTx method (i.e. transaction broadcasting) returns
+   * @param feeOptions The gas price and gas limits used to calculate the fees that are not set in customFees
+   * @param transport Sends the HTTP requests, e.g. an HttpTransport with retries and failover URLs
+   * @param viewingKeyStore Provides the viewing keys of smart queries, see queryContractSmart
+   * @param keyring Additional x25519 keypairs that transactions are decrypted with, e.g. from former seeds
    */
   public constructor(
     apiUrl: string,
@@ -128,21 +360,33 @@ export class SigningCosmWasmClient extends CosmWasmClient {
     seedOrEnigmaUtils?: Uint8Array | SecretUtils,
     customFees?: Partial<FeeTable>,
     broadcastMode = BroadcastMode.Block,
+    feeOptions: FeeOptions = {},
+    transport?: Transport,
+    viewingKeyStore?: ViewingKeyStore,
+    keyring?: readonly X25519Keypair[],
   ) {
     if (seedOrEnigmaUtils instanceof Uint8Array) {
-      super(apiUrl, seedOrEnigmaUtils, broadcastMode);
+      super(apiUrl, seedOrEnigmaUtils, broadcastMode, transport, viewingKeyStore, keyring);
     } else {
-      super(apiUrl, undefined, broadcastMode);
+      super(apiUrl, undefined, broadcastMode, transport, viewingKeyStore, keyring);
     }
 
     this.anyValidAddress = senderAddress;
     this.senderAddress = senderAddress;
+    this.broadcastMode = broadcastMode;
+    this.sequenceManager = new SequenceManager(async () => this.getNonce());
     //this.signCallback = signCallback ? signCallback : undefined;
     this.signer = signer;
     if (seedOrEnigmaUtils && !(seedOrEnigmaUtils instanceof Uint8Array)) {
       this.restClient.enigmautils = seedOrEnigmaUtils;
     }
-    this.fees = { ...defaultFees, ...(customFees || {}) };
+    this.gasPrice =
+      typeof feeOptions.gasPrice === "string"
+        ? GasPrice.fromString(feeOptions.gasPrice)
+        : feeOptions.gasPrice || defaultGasPrice;
+    this.multiplier = feeOptions.multiplier || defaultMultiplier;
+    const gasLimits = { ...defaultGasLimits, ...(feeOptions.gasLimits || {}) };
+    this.fees = { ...buildFeeTable(this.gasPrice, gasLimits), ...(customFees || {}) };
   }
 
   public async getNonce(address?: string): Promise<GetNonceResult> {
@@ -153,6 +397,11 @@ export class SigningCosmWasmClient extends CosmWasmClient {
     return super.getAccount(address || this.senderAddress);
   }
 
+  /** Creates an empty batch of messages that are sent by this client's sender address */
+  public createBatch(): MsgBatch {
+    return new MsgBatch(this.senderAddress, this.restClient);
+  }
+
   async signAdapter(
     msgs: Msg[],
     fee: StdFee,
@@ -161,199 +410,254 @@ export class SigningCosmWasmClient extends CosmWasmClient {
     accountNumber: number,
     sequence: number,
   ): Promise<StdTx> {
-    // offline signer interface
-    if ("sign" in this.signer) {
-      const signResponse = await this.signer.sign(this.senderAddress, {
-        chain_id: chainId,
-        account_number: String(accountNumber),
-        sequence: String(sequence),
-        fee: fee,
-        msgs: msgs,
-        memo: memo,
-      });
+    return signTx(this.signer, this.senderAddress, msgs, fee, chainId, memo, accountNumber, sequence);
+  }
 
-      return {
-        msg: msgs,
-        fee: signResponse.signed.fee,
-        memo: signResponse.signed.memo,
-        signatures: [signResponse.signature],
-      };
-    } else {
-      // legacy interface
-      const signBytes = makeSignBytes(msgs, fee, chainId, memo, accountNumber, sequence);
-      const signature = await this.signer(signBytes);
-      return {
-        msg: msgs,
-        fee: fee,
-        memo: memo,
-        signatures: [signature],
-      };
+  /**
+   * Simulates a transaction containing the given messages and returns the gas it used.
+   *
+   * Wasm messages must already be encrypted, e.g. by building them with a MsgBatch. The node can only
+   * simulate transactions with a single message, see RestClient.simulate.
+   */
+  public async simulate(msgs: readonly Msg[], memo = ""): Promise<number> {
+    const chainId = await this.getChainId();
+    let result;
+    try {
+      result = await this.restClient.simulate(msgs, chainId, memo);
+    } catch (err) {
+      throw await this.decryptError(err, getNonces(msgs));
     }
+    return parseInt(result.gas_estimate, 10);
   }
 
-  /** Uploads code and returns a receipt, including the code ID */
-  public async upload(wasmCode: Uint8Array, meta: UploadMeta = {}, memo = ""): Promise<UploadResult> {
-    const source = meta.source || "";
-    const builder = prepareBuilder(meta.builder);
+  /**
+   * Estimates the fee of a transaction containing the given messages by simulating it.
+   * The gas used is multiplied by the client's multiplier and paid at the client's gas price.
+   */
+  public async estimateFee(msgs: readonly Msg[], memo = ""): Promise<StdFee> {
+    const gasUsed = await this.simulate(msgs, memo);
+    return calculateFee(Math.ceil(gasUsed * this.multiplier), this.gasPrice);
+  }
 
-    const compressed = pako.gzip(wasmCode, { level: 9 });
-    const storeCodeMsg: MsgStoreCode = {
-      type: "wasm/MsgStoreCode",
-      value: {
-        sender: this.senderAddress,
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        wasm_byte_code: Encoding.toBase64(compressed),
-        source: source,
-        builder: builder,
-      },
-    };
-    const fee = this.fees.upload;
-    const { accountNumber, sequence } = await this.getNonce();
-    const chainId = await this.getChainId();
-    const signedTx = await this.signAdapter([storeCodeMsg], fee, chainId, memo, accountNumber, sequence);
+  /**
+   * Signs and broadcasts a transaction containing all the given messages, which are executed atomically.
+   *
+   * Wasm messages must already be encrypted, e.g. by building them with a MsgBatch. The results of each
+   * encrypted message (data, logs and errors) are decrypted using the nonce of the message with the same
+   * message index.
+   *
+   * In sync and async broadcast mode, this waits until the transaction is included in a block.
+   *
+   * The account sequence is tracked locally and transactions of concurrent calls are signed and broadcast
+   * one after the other. Use sync broadcast mode to get more than one transaction per block.
+   *
+   * @param fee The fee to pay or "auto" to estimate it by simulating the transaction first, which is only
+   * possible for a single message
+   */
+  public async signAndBroadcast(
+    msgs: readonly Msg[],
+    fee: StdFee | "auto",
+    memo = "",
+  ): Promise<PostTxResult> {
+    if (this.broadcastMode !== BroadcastMode.Block) {
+      const hash = await this.signAndPost(msgs, fee, memo);
+      return (await this.pollResult(hash, {})).result;
+    }
 
-    const result = await this.postTx(signedTx);
-    const codeIdAttr = findAttribute(result.logs, "message", "code_id");
-    return {
-      originalSize: wasmCode.length,
-      originalChecksum: Encoding.toHex(new Sha256(wasmCode).digest()),
-      compressedSize: compressed.length,
-      compressedChecksum: Encoding.toHex(new Sha256(compressed).digest()),
-      codeId: Number.parseInt(codeIdAttr.value, 10),
-      logs: result.logs,
-      transactionHash: result.transactionHash,
-    };
+    const result = await this.signAndPostMsgs(msgs, fee, memo);
+    return this.decryptResult(msgs, result);
+  }
+
+  /**
+   * Signs and broadcasts a transaction containing all the given messages and returns its hash
+   * without waiting for the result. Only use this with a client in sync or async broadcast mode.
+   *
+   * The result can be retrieved with waitForUpload, waitForInstantiate or waitForExecute.
+   *
+   * @param fee The fee to pay or "auto" to estimate it by simulating the transaction first, which is only
+   * possible for a single message
+   */
+  public async signAndPost(msgs: readonly Msg[], fee: StdFee | "auto", memo = ""): Promise<string> {
+    const { transactionHash } = await this.signAndPostMsgs(msgs, fee, memo);
+    return transactionHash;
   }
 
+  /**
+   * Uploads code and returns a receipt, including the code ID
+   *
+   * @param fee Overrides the fee from the client's fee table
+   */
+  public async upload(
+    wasmCode: Uint8Array,
+    meta: UploadMeta = {},
+    memo = "",
+    fee: StdFee | "auto" = this.fees.upload,
+  ): Promise<UploadResult> {
+    const batch = this.createBatch();
+    batch.addUpload(wasmCode, meta);
+
+    const result = await this.signAndBroadcast(batch.getMsgs(), fee, memo);
+    return makeUploadResult(batch.getMsgs(), result);
+  }
+
+  /**
+   * Instantiates a contract from uploaded code
+   *
+   * @param fee Overrides the fee from the client's fee table
+   */
   public async instantiate(
     codeId: number,
     initMsg: object,
     label: string,
     memo = "",
     transferAmount?: readonly Coin[],
+    fee: StdFee | "auto" = this.fees.init,
   ): Promise<InstantiateResult> {
-    const contractCodeHash = await this.restClient.getCodeHashByCodeId(codeId);
-    const instantiateMsg: MsgInstantiateContract = {
-      type: "wasm/MsgInstantiateContract",
-      value: {
-        sender: this.senderAddress,
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        code_id: codeId.toString(),
-        label: label,
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        callback_code_hash: "",
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        init_msg: Encoding.toBase64(await this.restClient.enigmautils.encrypt(contractCodeHash, initMsg)),
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        init_funds: transferAmount || [],
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        callback_sig: null,
-      },
-    };
-    const fee = this.fees.init;
-    const { accountNumber, sequence } = await this.getNonce();
-    const chainId = await this.getChainId();
-    const signedTx = await this.signAdapter([instantiateMsg], fee, chainId, memo, accountNumber, sequence);
-
-    const result = await this.postTx(signedTx);
-    const contractAddressAttr = findAttribute(result.logs, "message", "contract_address");
+    const batch = this.createBatch();
+    await batch.addInstantiate(codeId, initMsg, label, transferAmount);
 
-    const nonce = Encoding.fromBase64(instantiateMsg.value.init_msg).slice(0, 32);
-
-    const logs = await this.restClient.decryptLogs(result.logs, nonce);
-
-    return {
-      contractAddress: contractAddressAttr.value,
-      logs: logs,
-      transactionHash: result.transactionHash,
-      data: result.data, // data is the address of the new contract, so nothing to decrypt
-    };
+    const result = await this.signAndBroadcast(batch.getMsgs(), fee, memo);
+    return makeInstantiateResult(result);
   }
 
+  /**
+   * Executes a contract and returns the decrypted data and logs
+   *
+   * @param fee Overrides the fee from the client's fee table
+   */
   public async execute(
     contractAddress: string,
     handleMsg: object,
     memo = "",
     transferAmount?: readonly Coin[],
+    fee: StdFee | "auto" = this.fees.exec,
   ): Promise<ExecuteResult> {
-    const contractCodeHash = await this.restClient.getCodeHashByContractAddr(contractAddress);
+    const batch = this.createBatch();
+    await batch.addExecute(contractAddress, handleMsg, transferAmount);
 
-    const executeMsg: MsgExecuteContract = {
-      type: "wasm/MsgExecuteContract",
-      value: {
-        sender: this.senderAddress,
-        contract: contractAddress,
-        callback_code_hash: "",
-        msg: Encoding.toBase64(await this.restClient.enigmautils.encrypt(contractCodeHash, handleMsg)),
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        sent_funds: transferAmount || [],
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        callback_sig: null,
-      },
-    };
-    const fee = this.fees.exec;
-    const { accountNumber, sequence } = await this.getNonce();
-    const chainId = await this.getChainId();
-    const signedTx = await this.signAdapter([executeMsg], fee, chainId, memo, accountNumber, sequence);
+    const result = await this.signAndBroadcast(batch.getMsgs(), fee, memo);
+    return makeExecuteResult(result);
+  }
 
-    const nonce = Encoding.fromBase64(executeMsg.value.msg).slice(0, 32);
-    let result;
-    try {
-      result = await this.postTx(signedTx);
-    } catch (err) {
-      try {
-        const errorMessageRgx = /contract failed: encrypted: (.+?): failed to execute message; message index: 0/g;
+  /** Waits until an upload posted with signAndPost is included in a block and returns its receipt */
+  public async waitForUpload(hash: string, options: WaitForTxOptions = {}): Promise<UploadResult> {
+    const { result, msgs } = await this.pollResult(hash, options);
+    return makeUploadResult(msgs, result);
+  }
 
-        const rgxMatches = errorMessageRgx.exec(err.message);
-        if (rgxMatches == null || rgxMatches.length != 2) {
-          throw err;
-        }
+  /** Waits until an instantiation posted with signAndPost is included in a block and returns its result */
+  public async waitForInstantiate(hash: string, options: WaitForTxOptions = {}): Promise<InstantiateResult> {
+    const { result } = await this.pollResult(hash, options);
+    return makeInstantiateResult(result);
+  }
 
-        const errorCipherB64 = rgxMatches[1];
-        const errorCipherBz = Encoding.fromBase64(errorCipherB64);
+  /**
+   * Waits until an execution posted with signAndPost is included in a block and returns
+   * the decrypted data and logs
+   */
+  public async waitForExecute(hash: string, options: WaitForTxOptions = {}): Promise<ExecuteResult> {
+    const { result } = await this.pollResult(hash, options);
+    return makeExecuteResult(result);
+  }
 
-        const errorPlainBz = await this.restClient.enigmautils.decrypt(errorCipherBz, nonce);
+  /**
+   * Sends tokens to the recipient
+   *
+   * @param fee Overrides the fee from the client's fee table
+   */
+  public async sendTokens(
+    recipientAddress: string,
+    transferAmount: readonly Coin[],
+    memo = "",
+    fee: StdFee | "auto" = this.fees.send,
+  ): Promise<PostTxResult> {
+    const batch = this.createBatch();
+    batch.addSend(recipientAddress, transferAmount);
 
-        err.message = err.message.replace(errorCipherB64, Encoding.fromUtf8(errorPlainBz));
-      } catch (decryptionError) {
-        throw new Error(
-          `Failed to decrypt the following error message: ${err.message}. Decryption error of the error message: ${decryptionError.message}`,
-        );
-      }
+    return this.signAndBroadcast(batch.getMsgs(), fee, memo);
+  }
 
-      throw err;
+  /** Signs the messages with the next account sequence and broadcasts them in the client's broadcast mode */
+  private async signAndPostMsgs(
+    msgs: readonly Msg[],
+    fee: StdFee | "auto",
+    memo: string,
+  ): Promise<PostTxResult> {
+    const stdFee = fee === "auto" ? await this.estimateFee(msgs, memo) : fee;
+    const chainId = await this.getChainId();
+    try {
+      return await this.sequenceManager.submit(async ({ accountNumber, sequence }) => {
+        const signedTx = await this.signAdapter([...msgs], stdFee, chainId, memo, accountNumber, sequence);
+        return this.postTx(signedTx);
+      });
+    } catch (err) {
+      throw await this.decryptError(err, getNonces(msgs));
     }
+  }
 
-    const data = await this.restClient.decryptDataField(result.data, nonce);
-    const logs = await this.restClient.decryptLogs(result.logs, nonce);
+  /** Decrypts the logs and data of a transaction's result using the nonces of its messages */
+  private async decryptResult(msgs: readonly Msg[], result: PostTxResult): Promise<PostTxResult> {
+    const nonces = getNonces(msgs);
+    // instantiate messages return the plain contract address as data
+    const dataNonces = nonces.filter((_, msgIndex) => isMsgExecuteContract(msgs[msgIndex]));
 
     return {
-      logs: logs,
+      logs: await this.restClient.decryptLogsByMsgIndex(result.logs, nonces),
+      rawLog: result.rawLog,
       transactionHash: result.transactionHash,
-      data: data,
+      data: await this.restClient.decryptTxData(result.data, dataNonces),
     };
   }
 
-  public async sendTokens(
-    recipientAddress: string,
-    transferAmount: readonly Coin[],
-    memo = "",
-  ): Promise<PostTxResult> {
-    const sendMsg: MsgSend = {
-      type: "cosmos-sdk/MsgSend",
-      value: {
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        from_address: this.senderAddress,
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        to_address: recipientAddress,
-        amount: transferAmount,
-      },
-    };
-    const fee = this.fees.send;
-    const { accountNumber, sequence } = await this.getNonce();
-    const chainId = await this.getChainId();
-    const signedTx = await this.signAdapter([sendMsg], fee, chainId, memo, accountNumber, sequence);
+  /**
+   * Waits until the transaction is included in a block and returns its decrypted result.
+   * Throws if the transaction failed.
+   */
+  private async pollResult(
+    hash: string,
+    options: WaitForTxOptions,
+  ): Promise<{ readonly result: PostTxResult; readonly msgs: readonly Msg[] }> {
+    const response = await this.pollTx(hash, options);
+    const msgs = response.tx.value.msg;
+    if (response.code) {
+      throw await this.decryptError(
+        new BroadcastTxError(response.code, response.codespace, response.txhash, response.raw_log),
+        getNonces(msgs),
+      );
+    }
 
-    return this.postTx(signedTx);
+    const result = await this.decryptResult(msgs, {
+      logs: parseLogs(response.logs || []),
+      rawLog: response.raw_log,
+      transactionHash: response.txhash,
+      data: response.data || "",
+    });
+    return { result: result, msgs: msgs };
+  }
+
+  /**
+   * Turns an error that contains an encrypted contract error into a ContractExecutionError.
+   * Other errors are returned as they are.
+   */
+  private async decryptError(err: Error, nonces: readonly (Uint8Array | undefined)[]): Promise<Error> {
+    let contractError;
+    try {
+      contractError = await this.restClient.decryptContractError(err.message, nonces);
+    } catch (decryptionError) {
+      return new DecryptionError(
+        `Failed to decrypt the following error message: ${err.message}. Decryption error of the error message: ${decryptionError.message}`,
+        decryptionError,
+      );
+    }
+    if (!contractError) {
+      return err;
+    }
+    return new ContractExecutionError(
+      err.message.replace(contractError.ciphertext, contractError.plaintext),
+      contractError.msgIndex,
+      contractError.plaintext,
+      contractError.ciphertext,
+      err,
+    );
   }
 }
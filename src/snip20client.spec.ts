@@ -0,0 +1,237 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import { Encoding } from "@iov/encoding";
+
+import { PrivateCosmWasmClient } from "./cosmwasmclient";
+import { ContractExecutionError, ViewingKeyError } from "./errors";
+import { Secp256k1Pen } from "./pen";
+import { ExecuteResult, SigningCosmWasmClient } from "./signingcosmwasmclient";
+import { Snip20Client } from "./snip20client";
+import { faucet, makeRandomAddress } from "./testutils.spec";
+import { MemoryViewingKeyStore } from "./viewingkeystore";
+
+const { fromBase64, fromUtf8, toUtf8 } = Encoding;
+
+const httpUrl = "http://localhost:1317";
+
+describe("Snip20Client", () => {
+  const contractAddress = makeRandomAddress();
+  const txhash = "3F3B87DDA0DDCC6AC7DCE2AF1BC22E1DDAE4D2C3C44ADB4BB08FE0458A8B2F0C";
+
+  async function makeClient(): Promise<SigningCosmWasmClient> {
+    const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+    return new SigningCosmWasmClient(httpUrl, faucet.address, (signBytes) => pen.sign(signBytes));
+  }
+
+  /** Encodes the response the way SNIP-20 contracts do, padded with spaces */
+  function makeData(response: object): Uint8Array {
+    return toUtf8(JSON.stringify(response).padEnd(256, " "));
+  }
+
+  function makeExecuteResult(response: object): ExecuteResult {
+    return { logs: [], transactionHash: txhash, data: makeData(response) };
+  }
+
+  describe("queries", () => {
+    it("can get token info", async () => {
+      const client = await makeClient();
+      const querySpy = spyOn(client, "queryContractSmart").and.resolveTo({
+        token_info: { name: "Secret SCRT", symbol: "SSCRT", decimals: 6, total_supply: null },
+      });
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      expect(await snip20.getTokenInfo()).toEqual({
+        name: "Secret SCRT",
+        symbol: "SSCRT",
+        decimals: 6,
+        totalSupply: undefined,
+      });
+      expect(querySpy).toHaveBeenCalledWith(contractAddress, { token_info: {} });
+    });
+
+    it("can get the balance", async () => {
+      const client = await makeClient();
+      const querySpy = spyOn(client, "queryContractSmart").and.resolveTo({ balance: { amount: "1234" } });
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      expect(await snip20.getBalance(faucet.address, "api_key_123")).toEqual("1234");
+      expect(querySpy).toHaveBeenCalledWith(contractAddress, {
+        balance: { address: faucet.address, key: "api_key_123" },
+      });
+    });
+
+    it("can get the transfer history", async () => {
+      const client = await makeClient();
+      const transfer = {
+        id: 3,
+        from: faucet.address,
+        sender: faucet.address,
+        receiver: makeRandomAddress(),
+        coins: { denom: "SSCRT", amount: "10" },
+      };
+      const querySpy = spyOn(client, "queryContractSmart").and.resolveTo({
+        transfer_history: { txs: [transfer], total: 21 },
+      });
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      expect(await snip20.getTransferHistory(faucet.address, "api_key_123", 10, 2)).toEqual({
+        txs: [transfer],
+        total: 21,
+      });
+      expect(querySpy).toHaveBeenCalledWith(contractAddress, {
+        transfer_history: { address: faucet.address, key: "api_key_123", page: 2, page_size: 10 },
+      });
+    });
+
+    it("throws a ViewingKeyError for wrong viewing keys", async () => {
+      const client = await makeClient();
+      spyOn(client, "queryContractSmart").and.resolveTo({
+        viewing_key_error: { msg: "Wrong viewing key for this address or viewing key not set" },
+      });
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      await snip20.getBalance(faucet.address, "wrong").then(
+        () => fail("must not resolve"),
+        (error) => {
+          expect(error).toEqual(jasmine.any(ViewingKeyError));
+          expect(error.address).toEqual(contractAddress);
+          expect(error).toMatch(/Wrong viewing key/);
+        },
+      );
+    });
+  });
+
+  describe("executions", () => {
+    it("can transfer", async () => {
+      const client = await makeClient();
+      const executeSpy = spyOn(client, "execute").and.resolveTo(
+        makeExecuteResult({ transfer: { status: "success" } }),
+      );
+      const recipient = makeRandomAddress();
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      const result = await snip20.transfer(recipient, "100");
+      expect(result.response).toEqual({ status: "success" });
+      expect(result.transactionHash).toEqual(txhash);
+      expect(executeSpy).toHaveBeenCalledWith(
+        contractAddress,
+        { transfer: { recipient: recipient, amount: "100" } },
+        "",
+        undefined,
+        undefined,
+      );
+    });
+
+    it("can send with a message to the recipient contract", async () => {
+      const client = await makeClient();
+      const executeSpy = spyOn(client, "execute").and.resolveTo(
+        makeExecuteResult({ send: { status: "success" } }),
+      );
+      const fee = { amount: [{ amount: "50000", denom: "uscrt" }], gas: "200000" };
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      await snip20.send(contractAddress, "100", { swap: {} }, fee);
+      const [, handleMsg, , , usedFee] = executeSpy.calls.first().args;
+      expect(fromUtf8(fromBase64((handleMsg as any).send.msg))).toEqual(`{"swap":{}}`);
+      expect(usedFee).toEqual(fee);
+    });
+
+    it("can set a viewing key", async () => {
+      const client = await makeClient();
+      const executeSpy = spyOn(client, "execute").and.resolveTo(
+        makeExecuteResult({ set_viewing_key: { status: "success" } }),
+      );
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      expect((await snip20.setViewingKey("my key")).response).toEqual({ status: "success" });
+      expect(executeSpy.calls.first().args[1]).toEqual({ set_viewing_key: { key: "my key" } });
+    });
+
+    it("can create a viewing key", async () => {
+      const client = await makeClient();
+      const executeSpy = spyOn(client, "execute").and.resolveTo(
+        makeExecuteResult({ create_viewing_key: { key: "api_key_Z2Vu" } }),
+      );
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      expect(await snip20.createViewingKey("entropy")).toEqual("api_key_Z2Vu");
+      expect(executeSpy.calls.first().args[1]).toEqual({ create_viewing_key: { entropy: "entropy" } });
+    });
+
+    it("can increase the allowance", async () => {
+      const client = await makeClient();
+      const spender = makeRandomAddress();
+      spyOn(client, "execute").and.resolveTo(
+        makeExecuteResult({
+          increase_allowance: { owner: faucet.address, spender: spender, allowance: "300" },
+        }),
+      );
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      const { response } = await snip20.increaseAllowance(spender, "100");
+      expect(response).toEqual({ owner: faucet.address, spender: spender, allowance: "300" });
+    });
+
+    it("passes on decrypted contract errors", async () => {
+      const client = await makeClient();
+      const error = new ContractExecutionError(
+        "insufficient funds",
+        0,
+        "insufficient funds",
+        "",
+        new Error(),
+      );
+      spyOn(client, "execute").and.rejectWith(error);
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      await snip20.transfer(makeRandomAddress(), "100").then(
+        () => fail("must not resolve"),
+        (e) => expect(e).toBe(error),
+      );
+    });
+
+    it("throws for unexpected responses", async () => {
+      const client = await makeClient();
+      spyOn(client, "execute").and.resolveTo(makeExecuteResult({ send: { status: "success" } }));
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      await snip20.transfer(makeRandomAddress(), "100").then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/Unexpected response/),
+      );
+    });
+  });
+
+  describe("with a viewing key store", () => {
+    it("stores created viewing keys and uses them in queries", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(faucet.mnemonic);
+      const viewingKeyStore = new MemoryViewingKeyStore();
+      const client = new SigningCosmWasmClient(
+        httpUrl,
+        faucet.address,
+        (signBytes) => pen.sign(signBytes),
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        viewingKeyStore,
+      );
+      spyOn(client, "execute").and.resolveTo(
+        makeExecuteResult({ create_viewing_key: { key: "api_key_Z2Vu" } }),
+      );
+      const openedClient = (client as unknown) as PrivateCosmWasmClient;
+      const querySpy = spyOn(openedClient.restClient, "queryContractSmart").and.resolveTo({
+        balance: { amount: "1234" },
+      });
+
+      const snip20 = new Snip20Client(client, contractAddress);
+      await snip20.createViewingKey("entropy");
+      expect(await viewingKeyStore.get(faucet.address, contractAddress)).toEqual("api_key_Z2Vu");
+
+      expect(await snip20.getBalance(faucet.address)).toEqual("1234");
+      expect(querySpy).toHaveBeenCalledWith(contractAddress, {
+        balance: { address: faucet.address, key: "api_key_Z2Vu" },
+      });
+    });
+  });
+});
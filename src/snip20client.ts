@@ -0,0 +1,201 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import { Encoding } from "@iov/encoding";
+
+import { ViewingKeyError } from "./errors";
+import { Log } from "./logs";
+import { SigningCosmWasmClient } from "./signingcosmwasmclient";
+import { StdFee } from "./types";
+
+export interface Snip20TokenInfo {
+  readonly name: string;
+  readonly symbol: string;
+  readonly decimals: number;
+  /** Not set when the token keeps its total supply private */
+  readonly totalSupply?: string;
+}
+
+export interface Snip20Transfer {
+  readonly id: number;
+  readonly from: string;
+  readonly sender: string;
+  readonly receiver: string;
+  readonly coins: {
+    readonly denom: string;
+    readonly amount: string;
+  };
+}
+
+export interface Snip20TransferHistory {
+  readonly txs: readonly Snip20Transfer[];
+  /** The total number of transfers, if reported by the contract */
+  readonly total?: number;
+}
+
+export interface Snip20Allowance {
+  readonly owner: string;
+  readonly spender: string;
+  readonly allowance: string;
+}
+
+export interface Snip20ExecuteResult<T> {
+  /** The decoded response of the contract */
+  readonly response: T;
+  readonly logs: readonly Log[];
+  /** Transaction hash (might be used as transaction ID). Guaranteed to be non-empty upper-case hex */
+  readonly transactionHash: string;
+}
+
+/** Parses the decrypted data of an execution. SNIP-20 contracts pad it with spaces. */
+function parseResponseData(data: unknown): any {
+  if (!(data instanceof Uint8Array)) throw new Error("Expected decrypted response data");
+  return JSON.parse(Encoding.fromUtf8(data));
+}
+
+/**
+ * A client for SNIP-20 token contracts on top of a SigningCosmWasmClient.
+ *
+ * Executions are signed by the sender of the client. Queries of private data require a viewing key,
+ * which can be set with setViewingKey or created with createViewingKey. Queries with a wrong viewing key
+ * are rejected with a ViewingKeyError.
+ *
+ * When the client has a viewing key store, the viewing keys that are set or created are stored in it
+ * and queries without viewing key use the stored one.
+ */
+export class Snip20Client {
+  public readonly contractAddress: string;
+  private readonly client: SigningCosmWasmClient;
+
+  public constructor(client: SigningCosmWasmClient, contractAddress: string) {
+    this.client = client;
+    this.contractAddress = contractAddress;
+  }
+
+  public async getTokenInfo(): Promise<Snip20TokenInfo> {
+    const { token_info } = await this.query({ token_info: {} });
+    return {
+      name: token_info.name,
+      symbol: token_info.symbol,
+      decimals: token_info.decimals,
+      totalSupply: token_info.total_supply ?? undefined,
+    };
+  }
+
+  /** Returns the balance of the address in the smallest unit of the token */
+  public async getBalance(address: string, viewingKey?: string): Promise<string> {
+    const { balance } = await this.query({ balance: { address: address, key: viewingKey } });
+    return balance.amount;
+  }
+
+  /**
+   * Returns the transfers from and to the address, newest first
+   *
+   * @param page The page to return, starting at 0
+   */
+  public async getTransferHistory(
+    address: string,
+    viewingKey: string | undefined,
+    pageSize: number,
+    page = 0,
+  ): Promise<Snip20TransferHistory> {
+    const { transfer_history } = await this.query({
+      transfer_history: { address: address, key: viewingKey, page: page, page_size: pageSize },
+    });
+    return {
+      txs: transfer_history.txs,
+      total: transfer_history.total ?? undefined,
+    };
+  }
+
+  /** Transfers an amount in the smallest unit of the token to the recipient */
+  public async transfer(
+    recipient: string,
+    amount: string,
+    fee?: StdFee | "auto",
+  ): Promise<Snip20ExecuteResult<{ readonly status: string }>> {
+    return this.execute("transfer", { recipient: recipient, amount: amount }, fee);
+  }
+
+  /**
+   * Transfers an amount to a recipient contract and lets it handle the transfer
+   *
+   * @param msg The message passed on to the recipient contract
+   */
+  public async send(
+    recipient: string,
+    amount: string,
+    msg?: object,
+    fee?: StdFee | "auto",
+  ): Promise<Snip20ExecuteResult<{ readonly status: string }>> {
+    return this.execute(
+      "send",
+      {
+        recipient: recipient,
+        amount: amount,
+        msg: msg ? Encoding.toBase64(Encoding.toUtf8(JSON.stringify(msg))) : undefined,
+      },
+      fee,
+    );
+  }
+
+  public async setViewingKey(
+    viewingKey: string,
+    fee?: StdFee | "auto",
+  ): Promise<Snip20ExecuteResult<{ readonly status: string }>> {
+    const result = await this.execute<{ readonly status: string }>(
+      "set_viewing_key",
+      { key: viewingKey },
+      fee,
+    );
+    await this.client.viewingKeyStore?.set(this.client.senderAddress, this.contractAddress, viewingKey);
+    return result;
+  }
+
+  /**
+   * Lets the contract create a viewing key for the sender
+   *
+   * @param entropy A random string mixed into the key
+   * @returns the new viewing key
+   */
+  public async createViewingKey(entropy: string, fee?: StdFee | "auto"): Promise<string> {
+    const { response } = await this.execute<{ readonly key: string }>(
+      "create_viewing_key",
+      { entropy: entropy },
+      fee,
+    );
+    await this.client.viewingKeyStore?.set(this.client.senderAddress, this.contractAddress, response.key);
+    return response.key;
+  }
+
+  /** Allows the spender to transfer an additional amount from the sender's balance */
+  public async increaseAllowance(
+    spender: string,
+    amount: string,
+    fee?: StdFee | "auto",
+  ): Promise<Snip20ExecuteResult<Snip20Allowance>> {
+    return this.execute("increase_allowance", { spender: spender, amount: amount }, fee);
+  }
+
+  private async query(queryMsg: object): Promise<any> {
+    const result = await this.client.queryContractSmart(this.contractAddress, queryMsg);
+    if (result.viewing_key_error) {
+      throw new ViewingKeyError(result.viewing_key_error.msg, this.contractAddress);
+    }
+    return result;
+  }
+
+  /** Executes the handle message `{ [name]: params }` and returns the response of the same name */
+  private async execute<T>(
+    name: string,
+    params: object,
+    fee: StdFee | "auto" | undefined,
+  ): Promise<Snip20ExecuteResult<T>> {
+    const result = await this.client.execute(this.contractAddress, { [name]: params }, "", undefined, fee);
+    const data = parseResponseData(result.data);
+    if (!(name in data)) throw new Error(`Unexpected response: ${Encoding.fromUtf8(result.data)}`);
+    return {
+      response: data[name],
+      logs: result.logs,
+      transactionHash: result.transactionHash,
+    };
+  }
+}
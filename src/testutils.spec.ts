@@ -1,6 +1,7 @@
 import { Random } from "@iov/crypto";
 import { Bech32, Encoding } from "@iov/encoding";
 
+import { SecretUtils } from "./enigmautils";
 import hackatom from "./testdata/contract.json";
 
 export function getHackatom(): Uint8Array {
@@ -70,8 +71,75 @@ export function pendingWithoutWasmd(): void {
   }
 }
 
+/** The path of a real io-master-cert.der, e.g. as written by `secretcli query register secret-network-params` */
+export function registrationCertPath(): string | undefined {
+  return process.env.REGISTRATION_CERT || undefined;
+}
+
+export function pendingWithoutRegistrationCert(): void {
+  if (!registrationCertPath()) {
+    return pending("Set REGISTRATION_CERT to the path of an io-master-cert.der to enable certificate tests");
+  }
+}
+
 /** Returns first element. Throws if array has a different length than 1. */
 export function fromOneElementArray<T>(elements: ArrayLike<T>): T {
   if (elements.length !== 1) throw new Error(`Expected exactly one element but got ${elements.length}`);
   return elements[0];
 }
+
+/**
+ * A SecretUtils with a no-op cipher: inputs are "encrypted" to nonce (all zeros) || pubkey || plaintext
+ * and ciphertexts decrypt to themselves.
+ */
+export function makeNoopSecretUtils(pubkey = new Uint8Array(32).fill(0x42)): SecretUtils {
+  return {
+    getPubkey: async () => pubkey,
+    encrypt: async (contractCodeHash: string, msg: object) =>
+      Uint8Array.from([
+        ...new Uint8Array(32),
+        ...pubkey,
+        ...Encoding.toUtf8(contractCodeHash + JSON.stringify(msg)),
+      ]),
+    decrypt: async (ciphertext: Uint8Array) => ciphertext,
+  };
+}
+
+/**
+ * Builds a minimal DER blob that contains an attestation report for the given consensus IO pubkey
+ * in a Netscape comment extension, the way registration certificates do
+ */
+export function makeRegistrationCert(consensusIoPubKey: Uint8Array): Uint8Array {
+  const quote = new Uint8Array(432);
+  quote.set(consensusIoPubKey, 368);
+  const report = JSON.stringify({
+    id: "1234",
+    isvEnclaveQuoteStatus: "OK",
+    isvEnclaveQuoteBody: Encoding.toBase64(quote),
+  });
+  const payload = Encoding.toUtf8(`${report}|c2lnbmF0dXJl|Y2VydGlmaWNhdGU=`);
+  return Uint8Array.from([
+    0x30,
+    0x82,
+    0x01,
+    0x00, // start of a certificate
+    0x06,
+    0x09,
+    0x60,
+    0x86,
+    0x48,
+    0x01,
+    0x86,
+    0xf8,
+    0x42,
+    0x01,
+    0x0d, // Netscape comment OID
+    0x04,
+    0x82,
+    payload.length >> 8,
+    payload.length & 0xff,
+    ...payload,
+    0x30,
+    0x00, // trailing data
+  ]);
+}
@@ -0,0 +1,240 @@
+import { Encoding } from "@iov/encoding";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+import EnigmaUtils from "./enigmautils";
+import { HttpError } from "./errors";
+import { RestClient } from "./restclient";
+import { HttpTransport, Transport } from "./transport";
+
+const { toBase64 } = Encoding;
+
+/** An endpoint that refuses connections */
+const deadEndpoint = "http://127.0.0.1:1";
+
+type Handler = (request: IncomingMessage, body: string, response: ServerResponse) => void;
+
+function sendJson(response: ServerResponse, status: number, data: any): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(data));
+}
+
+describe("HttpTransport", () => {
+  let server: Server;
+  let endpoint: string;
+  let handler: Handler;
+  let requestCount: number;
+
+  beforeEach(async () => {
+    requestCount = 0;
+    handler = (_request, _body, response) => sendJson(response, 200, { ok: true });
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        requestCount++;
+        handler(request, body, response);
+      });
+    });
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("can get", async () => {
+    let requestedUrl: string | undefined;
+    handler = (request, _body, response) => {
+      requestedUrl = request.url;
+      sendJson(response, 200, { height: "5" });
+    };
+    const transport = new HttpTransport(endpoint);
+    expect(await transport.get("/blocks/latest")).toEqual({ height: "5" });
+    expect(requestedUrl).toEqual("/blocks/latest");
+  });
+
+  it("can post JSON", async () => {
+    let requestBody: string | undefined;
+    let contentType: string | undefined;
+    handler = (request, body, response) => {
+      requestBody = body;
+      contentType = request.headers["content-type"];
+      sendJson(response, 200, { txhash: "ABCD" });
+    };
+    const transport = new HttpTransport(endpoint);
+    expect(await transport.post("/txs", { mode: "block" })).toEqual({ txhash: "ABCD" });
+    expect(requestBody).toEqual(JSON.stringify({ mode: "block" }));
+    expect(contentType).toMatch(/^application\/json/);
+  });
+
+  it("sends custom headers", async () => {
+    let apiKey: string | string[] | undefined;
+    handler = (request, _body, response) => {
+      apiKey = request.headers["x-api-key"];
+      sendJson(response, 200, {});
+    };
+    const transport = new HttpTransport(endpoint, { headers: { "X-Api-Key": "secret" } });
+    await transport.get("/node_info");
+    expect(apiKey).toEqual("secret");
+  });
+
+  it("retries on server errors", async () => {
+    handler = (_request, _body, response) => {
+      if (requestCount < 3) {
+        sendJson(response, 502, { error: "bad gateway" });
+      } else {
+        sendJson(response, 200, { ok: true });
+      }
+    };
+    const transport = new HttpTransport(endpoint, { retries: 2, backoff: 1 });
+    expect(await transport.get("/node_info")).toEqual({ ok: true });
+    expect(requestCount).toEqual(3);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    handler = (_request, _body, response) => sendJson(response, 503, { error: "unavailable" });
+    const transport = new HttpTransport(endpoint, { retries: 1, backoff: 1 });
+    await transport.get("/node_info").then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/unavailable \(HTTP 503\)/),
+    );
+    expect(requestCount).toEqual(2);
+  });
+
+  it("does not retry contract errors", async () => {
+    const contractError = "query wasm contract failed: contract failed: encrypted: AAAA";
+    handler = (_request, _body, response) => sendJson(response, 500, { error: contractError });
+    const transport = new HttpTransport([endpoint, deadEndpoint], { retries: 2, backoff: 1 });
+    await transport.get("/wasm/contract/secret1abc/query/00?encoding=hex").then(
+      () => fail("must not resolve"),
+      (error) => {
+        expect(error).toEqual(jasmine.any(HttpError));
+        expect(error.status).toEqual(500);
+        expect(error.errorText).toEqual(contractError);
+      },
+    );
+    expect(requestCount).toEqual(1);
+    // the endpoint is still healthy
+    expect(transport.getActiveUrl()).toEqual(endpoint);
+  });
+
+  it("does not retry client errors", async () => {
+    handler = (_request, _body, response) => sendJson(response, 404, { error: "not found" });
+    const transport = new HttpTransport(endpoint, { retries: 3, backoff: 1 });
+    await transport.get("/txs/ABCD").then(
+      () => fail("must not resolve"),
+      (error) => {
+        expect(error).toEqual(jasmine.any(HttpError));
+        expect(error.status).toEqual(404);
+        expect(error.errorText).toEqual("not found");
+        expect(error).toMatch(/not found \(HTTP 404\)/);
+      },
+    );
+    expect(requestCount).toEqual(1);
+  });
+
+  it("times out", async () => {
+    handler = (_request, _body, response) => setTimeout(() => sendJson(response, 200, {}), 500);
+    const transport = new HttpTransport(endpoint, { timeout: 50, retries: 0 });
+    await transport.get("/node_info").then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/timeout/),
+    );
+  });
+
+  it("does not resend broadcasts that timed out", async () => {
+    handler = (_request, _body, response) => setTimeout(() => sendJson(response, 200, {}), 200);
+    const transport = new HttpTransport(endpoint, { timeout: 50, retries: 2, backoff: 1 });
+    await transport.post("/txs", { mode: "block" }).then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/timeout/),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(requestCount).toEqual(1);
+  });
+
+  it("does not resend broadcasts that failed at a gateway", async () => {
+    handler = (_request, _body, response) => sendJson(response, 504, { error: "gateway timeout" });
+    const transport = new HttpTransport(endpoint, { retries: 2, backoff: 1 });
+    await transport.post("/txs", { mode: "block" }).then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/gateway timeout \(HTTP 504\)/),
+    );
+    expect(requestCount).toEqual(1);
+  });
+
+  it("resends broadcasts that could not connect", async () => {
+    handler = (_request, _body, response) => sendJson(response, 200, { txhash: "ABCD" });
+    const transport = new HttpTransport([deadEndpoint, endpoint], { retries: 1, backoff: 1 });
+    expect(await transport.post("/txs", { mode: "block" })).toEqual({ txhash: "ABCD" });
+    expect(requestCount).toEqual(1);
+  });
+
+  it("fails over to the next endpoint", async () => {
+    const transport = new HttpTransport([deadEndpoint, endpoint], { retries: 1, backoff: 1 });
+    expect(transport.getActiveUrl()).toEqual(deadEndpoint);
+    expect(await transport.get("/node_info")).toEqual({ ok: true });
+    expect(transport.getActiveUrl()).toEqual(endpoint);
+
+    // the unhealthy endpoint is skipped until the cooldown is over
+    expect(await transport.get("/node_info")).toEqual({ ok: true });
+    expect(requestCount).toEqual(2);
+  });
+
+  it("returns to an endpoint after its cooldown", async () => {
+    const transport = new HttpTransport([endpoint, deadEndpoint], { retries: 0, cooldown: 0 });
+    handler = (_request, _body, response) => sendJson(response, 503, { error: "unavailable" });
+    await transport.get("/node_info").then(
+      () => fail("must not resolve"),
+      (error) => expect(error).toMatch(/unavailable/),
+    );
+    expect(transport.getActiveUrl()).toEqual(endpoint);
+  });
+
+  it("runs interceptors", async () => {
+    let authorization: string | undefined;
+    handler = (request, _body, response) => {
+      authorization = request.headers["authorization"];
+      sendJson(response, 200, { result: "1" });
+    };
+    const transport = new HttpTransport(endpoint, {
+      requestInterceptors: [
+        (request) => ({ ...request, headers: { ...request.headers, Authorization: "Bearer token" } }),
+      ],
+      responseInterceptors: [
+        (response, request) => ({ ...response, data: { ...response.data, path: request.path } }),
+      ],
+    });
+    expect(await transport.get("/node_info")).toEqual({ result: "1", path: "/node_info" });
+    expect(authorization).toEqual("Bearer token");
+  });
+
+  it("is used by RestClient and EnigmaUtils", async () => {
+    const ioExchPubkey = new Uint8Array(32).fill(0x09);
+    const transport: Transport = {
+      get: async (path: string) => {
+        switch (path) {
+          case "/reg/consensus-io-exch-pubkey":
+            return { result: { ioExchPubkey: toBase64(ioExchPubkey) } };
+          case "/blocks/latest":
+            return { block: {} };
+          default:
+            throw new Error(`Unexpected path ${path}`);
+        }
+      },
+      post: async () => ({}),
+    };
+    const getSpy = spyOn(transport, "get").and.callThrough();
+
+    const client = new RestClient(deadEndpoint, undefined, undefined, transport);
+    expect(await client.blocksLatest()).toEqual({ block: {} } as any);
+    await client.enigmautils.encrypt("ab".repeat(32), { release: {} });
+    expect(getSpy.calls.allArgs()).toEqual([["/blocks/latest"], ["/reg/consensus-io-exch-pubkey"]]);
+
+    const enigmautils = new EnigmaUtils(deadEndpoint, undefined, transport);
+    await enigmautils.encrypt("ab".repeat(32), { release: {} });
+    expect(getSpy).toHaveBeenCalledTimes(3);
+  });
+});
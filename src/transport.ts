@@ -0,0 +1,219 @@
+import { sleep } from "@iov/utils";
+import axios, { AxiosError } from "axios";
+
+import { HttpError } from "./errors";
+
+export interface HttpRequest {
+  readonly method: "GET" | "POST";
+  /** The path relative to the endpoint URL, e.g. "/node_info" */
+  readonly path: string;
+  readonly headers: { readonly [name: string]: string };
+  readonly body?: object;
+}
+
+export interface HttpResponse {
+  readonly status: number;
+  readonly headers: { readonly [name: string]: string };
+  readonly data: any;
+}
+
+/** Called before every attempt of a request. Can e.g. add API key headers. */
+export type RequestInterceptor = (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+
+/** Called on every successful response before it is returned to the caller */
+export type ResponseInterceptor = (
+  response: HttpResponse,
+  request: HttpRequest,
+) => HttpResponse | Promise<HttpResponse>;
+
+/**
+ * Sends HTTP requests to a Cosmos SDK light client daemon.
+ *
+ * Implement this to plug in your own HTTP stack. The default implementation is HttpTransport.
+ */
+export interface Transport {
+  /** Sends a GET request and returns the response body */
+  readonly get: (path: string) => Promise<any>;
+  /** Sends a POST request with a JSON body and returns the response body */
+  readonly post: (path: string, body: object) => Promise<any>;
+}
+
+export interface HttpTransportOptions {
+  /** Timeout of a single attempt in milliseconds. Defaults to 30 seconds. */
+  readonly timeout?: number;
+  /** How often a failed request is retried. Defaults to 2. */
+  readonly retries?: number;
+  /** Delay before the first retry in milliseconds. Doubled with every retry. Defaults to 500. */
+  readonly backoff?: number;
+  /** How long an endpoint is avoided after a failure in milliseconds. Defaults to one minute. */
+  readonly cooldown?: number;
+  /** Headers sent with every request */
+  readonly headers?: { readonly [name: string]: string };
+  readonly requestInterceptors?: readonly RequestInterceptor[];
+  readonly responseInterceptors?: readonly ResponseInterceptor[];
+}
+
+interface Endpoint {
+  readonly url: string;
+  /** Timestamp until which the endpoint is considered unhealthy */
+  unhealthyUntil: number;
+}
+
+/**
+ * An error that might go away when the request is repeated, i.e. network errors, timeouts and
+ * errors of a proxy in front of the node (HTTP 502, 503 and 504). The node itself reports failed
+ * queries and transactions as HTTP 500, which are not retried.
+ */
+function isRetriable(error: AxiosError): boolean {
+  return !error.response || [502, 503, 504].includes(error.response.status);
+}
+
+/** An error that happened before the request was sent, so the node cannot have received it */
+function isConnectError(error: AxiosError): boolean {
+  return (
+    !error.response &&
+    ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH", "ENETUNREACH"].includes(error.code || "")
+  );
+}
+
+/**
+ * Broadcasting a transaction is the only request that must not be sent twice. A broadcast that
+ * reached the node but timed out might have succeeded, and sending it again fails with
+ * "tx already exists in cache".
+ */
+function isIdempotent(request: HttpRequest): boolean {
+  return !(request.method === "POST" && request.path === "/txs");
+}
+
+// We want to get message data from 500 errors
+// https://stackoverflow.com/questions/56577124/how-to-handle-500-error-message-with-axios
+// this should be chained to catch one error and throw a more informative one
+function parseAxiosError(err: AxiosError): never {
+  // use the error message sent from server, not default 500 msg
+  if (err.response?.data) {
+    let errorText: string;
+    const data = err.response.data;
+    // expect { error: string }, but otherwise dump
+    if (data.error && typeof data.error === "string") {
+      errorText = data.error;
+    } else if (typeof data === "string") {
+      errorText = data;
+    } else {
+      errorText = JSON.stringify(data);
+    }
+    throw new HttpError(err.response.status, errorText);
+  } else {
+    throw err;
+  }
+}
+
+/**
+ * A Transport based on axios that retries failed requests and fails over between multiple endpoints.
+ *
+ * Requests go to the first healthy endpoint. An endpoint that fails with a network error, a timeout
+ * or HTTP 502, 503 or 504 is considered unhealthy for the cooldown period and the request is retried
+ * on the next healthy endpoint right away. When no healthy endpoint is left, the request is
+ * retried on the one that failed longest ago after waiting for the backoff delay.
+ *
+ * Broadcasts (`POST /txs`) are only retried if the connection could not be established.
+ */
+export class HttpTransport implements Transport {
+  private readonly endpoints: readonly Endpoint[];
+  private readonly timeout: number;
+  private readonly retries: number;
+  private readonly backoff: number;
+  private readonly cooldown: number;
+  private readonly headers: { readonly [name: string]: string };
+  private readonly requestInterceptors: readonly RequestInterceptor[];
+  private readonly responseInterceptors: readonly ResponseInterceptor[];
+
+  /**
+   * @param urls The URL of a Cosmos SDK light client daemon API or a list of URLs in order of preference
+   */
+  public constructor(urls: string | readonly string[], options: HttpTransportOptions = {}) {
+    const urlList = typeof urls === "string" ? [urls] : urls;
+    if (urlList.length === 0) throw new Error("At least one endpoint URL is required");
+    this.endpoints = urlList.map((url) => ({ url: url, unhealthyUntil: 0 }));
+    this.timeout = options.timeout ?? 30000;
+    this.retries = options.retries ?? 2;
+    this.backoff = options.backoff ?? 500;
+    this.cooldown = options.cooldown ?? 60000;
+    this.headers = options.headers || {};
+    this.requestInterceptors = options.requestInterceptors || [];
+    this.responseInterceptors = options.responseInterceptors || [];
+  }
+
+  /** The URL requests are sent to next */
+  public getActiveUrl(): string {
+    return this.pickEndpoint().url;
+  }
+
+  public async get(path: string): Promise<any> {
+    return this.request({ method: "GET", path: path, headers: this.headers });
+  }
+
+  public async post(path: string, body: object): Promise<any> {
+    return this.request({
+      method: "POST",
+      path: path,
+      headers: { "Content-Type": "application/json", ...this.headers },
+      body: body,
+    });
+  }
+
+  private async request(originalRequest: HttpRequest): Promise<any> {
+    let delay = this.backoff;
+    for (let attempt = 0; ; attempt++) {
+      const endpoint = this.pickEndpoint();
+      let request = originalRequest;
+      for (const interceptor of this.requestInterceptors) {
+        request = await interceptor(request);
+      }
+
+      try {
+        const { status, headers, data } = await axios.request({
+          baseURL: endpoint.url,
+          url: request.path,
+          method: request.method,
+          headers: request.headers,
+          data: request.body,
+          timeout: this.timeout,
+        });
+        endpoint.unhealthyUntil = 0;
+
+        let response: HttpResponse = { status: status, headers: headers, data: data };
+        for (const interceptor of this.responseInterceptors) {
+          response = await interceptor(response, request);
+        }
+        return response.data;
+      } catch (error) {
+        if (!error.isAxiosError) throw error;
+        if (!isRetriable(error)) parseAxiosError(error);
+
+        endpoint.unhealthyUntil = Date.now() + this.cooldown;
+        if (attempt >= this.retries) parseAxiosError(error);
+        if (!isIdempotent(request) && !isConnectError(error)) parseAxiosError(error);
+
+        if (!this.hasHealthyEndpoint()) {
+          await sleep(delay);
+          delay *= 2;
+        }
+      }
+    }
+  }
+
+  private hasHealthyEndpoint(): boolean {
+    const now = Date.now();
+    return this.endpoints.some((endpoint) => endpoint.unhealthyUntil <= now);
+  }
+
+  /** Returns the first healthy endpoint or the one that failed longest ago */
+  private pickEndpoint(): Endpoint {
+    const now = Date.now();
+    const healthy = this.endpoints.find((endpoint) => endpoint.unhealthyUntil <= now);
+    if (healthy) return healthy;
+    return this.endpoints.reduce((best, endpoint) =>
+      endpoint.unhealthyUntil < best.unhealthyUntil ? endpoint : best,
+    );
+  }
+}
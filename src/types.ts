@@ -102,7 +102,28 @@ export interface MsgExecuteContract extends MsgTemplate {
   };
 }
 
-export type Msg = MsgSend | MsgStoreCode | MsgInstantiateContract | MsgExecuteContract | MsgTemplate;
+/**
+ * An ADR-036 message to sign arbitrary data off-chain. It must not be broadcast.
+ *
+ * @see https://github.com/cosmos/cosmos-sdk/blob/master/docs/architecture/adr-036-arbitrary-signature.md
+ */
+export interface MsgSignData extends MsgTemplate {
+  readonly type: "sign/MsgSignData";
+  readonly value: {
+    /** Bech32 account address */
+    readonly signer: string;
+    /** The signed data as base64 */
+    readonly data: string;
+  };
+}
+
+export type Msg =
+  | MsgSend
+  | MsgStoreCode
+  | MsgInstantiateContract
+  | MsgExecuteContract
+  | MsgSignData
+  | MsgTemplate;
 
 export function isMsgSend(msg: Msg): msg is MsgSend {
   return (msg as MsgSend).type === "cosmos-sdk/MsgSend";
@@ -120,6 +141,10 @@ export function isMsgExecuteContract(msg: Msg): msg is MsgExecuteContract {
   return (msg as MsgExecuteContract).type === "wasm/MsgExecuteContract";
 }
 
+export function isMsgSignData(msg: Msg): msg is MsgSignData {
+  return (msg as MsgSignData).type === "sign/MsgSignData";
+}
+
 export interface StdFee {
   readonly amount: ReadonlyArray<Coin>;
   readonly gas: string;
@@ -131,7 +156,8 @@ export interface Coin {
 }
 
 export interface StdSignature {
-  readonly pub_key: PubKey;
+  /** A multisig pubkey for signatures of multisig accounts, see combineSignatures */
+  readonly pub_key: PubKey | MultisigThresholdPubKey;
   readonly signature: string;
 }
 
@@ -145,6 +171,22 @@ export interface PubKey {
   readonly value: string;
 }
 
+/** A k-of-n multisig pubkey. Its members are single pubkeys. */
+export interface MultisigThresholdPubKey {
+  readonly type: typeof pubkeyType.multisigThreshold;
+  readonly value: {
+    /** The number of signatures required, as a decimal string */
+    readonly threshold: string;
+    readonly pubkeys: readonly PubKey[];
+  };
+}
+
+export function isMultisigThresholdPubKey(
+  pubkey: PubKey | MultisigThresholdPubKey,
+): pubkey is MultisigThresholdPubKey {
+  return pubkey.type === pubkeyType.multisigThreshold;
+}
+
 export const pubkeyType = {
   /** @see https://github.com/tendermint/tendermint/blob/v0.33.0/crypto/ed25519/ed25519.go#L22 */
   secp256k1: "tendermint/PubKeySecp256k1" as const,
@@ -152,6 +194,8 @@ export const pubkeyType = {
   ed25519: "tendermint/PubKeyEd25519" as const,
   /** @see https://github.com/tendermint/tendermint/blob/v0.33.0/crypto/sr25519/codec.go#L12 */
   sr25519: "tendermint/PubKeySr25519" as const,
+  /** @see https://github.com/tendermint/tendermint/blob/v0.33.0/crypto/multisig/wire.go#L16 */
+  multisigThreshold: "tendermint/PubKeyMultisigThreshold" as const,
 };
 
 export const pubkeyTypes: readonly string[] = [pubkeyType.secp256k1, pubkeyType.ed25519, pubkeyType.sr25519];
@@ -0,0 +1,33 @@
+/** Encodes an unsigned integer as a protobuf/Amino uvarint */
+export function encodeUvarint(value: number): number[] {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error("Uvarint value must be a non-negative safe integer");
+  }
+  const out = new Array<number>();
+  let remaining = value;
+  while (remaining >= 0x80) {
+    out.push(remaining % 0x80 | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  out.push(remaining);
+  return out;
+}
+
+export interface DecodedUvarint {
+  readonly value: number;
+  /** The number of bytes the uvarint occupies */
+  readonly length: number;
+}
+
+export function decodeUvarint(data: Uint8Array, offset: number): DecodedUvarint {
+  let value = 0;
+  let multiplier = 1;
+  for (let length = 1; offset + length <= data.length; length++) {
+    const byte = data[offset + length - 1];
+    value += (byte & 0x7f) * multiplier;
+    if (!Number.isSafeInteger(value)) throw new Error("Uvarint exceeds safe integer range");
+    if (byte < 0x80) return { value: value, length: length };
+    multiplier *= 0x80;
+  }
+  throw new Error("Unexpected end of data while decoding uvarint");
+}
@@ -0,0 +1,187 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import { Encoding } from "@iov/encoding";
+
+import { pubkeyToAddress, rawSecp256k1PubkeyToAddress } from "./address";
+import { makeSignBytes, serializeSignDoc, StdSignDoc } from "./encoding";
+import { createMultisigThresholdPubKey } from "./multisig";
+import { MultisigTx } from "./multisigtx";
+import { Ed25519Pen, makeSecretNetworkPath, Secp256k1Pen } from "./pen";
+import { encodeSecp256k1Pubkey } from "./pubkey";
+import { makeRandomAddress } from "./testutils.spec";
+import { MsgSend, StdFee, StdTx } from "./types";
+import { getSigners, verifySignDoc, verifyStdTx } from "./verification";
+
+const { toBase64 } = Encoding;
+
+describe("verification", () => {
+  const mnemonic = "special sign fit simple patrol salute grocery chicken wheat radar tonight ceiling";
+  const fee: StdFee = { amount: [{ amount: "5000", denom: "uscrt" }], gas: "200000" };
+  const chainId = "secret-1";
+
+  function makeSend(fromAddress: string): MsgSend {
+    return {
+      type: "cosmos-sdk/MsgSend",
+      value: {
+        from_address: fromAddress,
+        to_address: makeRandomAddress(),
+        amount: [{ amount: "1234", denom: "uscrt" }],
+      },
+    };
+  }
+
+  async function makeSignedTx(pen: Secp256k1Pen, accountNumber: number, sequence: number): Promise<StdTx> {
+    const msg = makeSend(rawSecp256k1PubkeyToAddress(pen.pubkey, "secret"));
+    const signBytes = makeSignBytes([msg], fee, chainId, "", accountNumber, sequence);
+    return { msg: [msg], fee: fee, memo: "", signatures: [await pen.sign(signBytes)] };
+  }
+
+  describe("getSigners", () => {
+    it("returns the senders without duplicates in order", () => {
+      const [sender1, sender2] = [makeRandomAddress(), makeRandomAddress()];
+      const execute = {
+        type: "wasm/MsgExecuteContract",
+        value: { sender: sender2, contract: makeRandomAddress(), msg: "", sent_funds: [] },
+      };
+      expect(getSigners([makeSend(sender1), execute, makeSend(sender1)])).toEqual([sender1, sender2]);
+    });
+
+    it("throws for unsupported messages", () => {
+      expect(() => getSigners([{ type: "cosmos-sdk/MsgDelegate", value: {} }])).toThrowError(
+        /unsupported message type cosmos-sdk\/MsgDelegate/,
+      );
+    });
+  });
+
+  describe("verifySignDoc", () => {
+    const signDoc: StdSignDoc = {
+      chain_id: chainId,
+      account_number: "7",
+      sequence: "3",
+      fee: fee,
+      msgs: [makeSend(makeRandomAddress())],
+      memo: "",
+    };
+
+    it("works for secp256k1 and ed25519 signatures", async () => {
+      const secp256k1Pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const ed25519Pen = await Ed25519Pen.fromMnemonic(mnemonic);
+      for (const pen of [secp256k1Pen, ed25519Pen]) {
+        const signature = await pen.sign(serializeSignDoc(signDoc));
+        expect(await verifySignDoc(signDoc, signature)).toEqual(true);
+        expect(await verifySignDoc({ ...signDoc, sequence: "4" }, signature)).toEqual(false);
+      }
+    });
+
+    it("works for multisig signatures", async () => {
+      const pens = await Promise.all(
+        [0, 1, 2].map((a) => Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(a))),
+      );
+      const multisigPubkey = createMultisigThresholdPubKey(
+        pens.map((pen) => encodeSecp256k1Pubkey(pen.pubkey)),
+        2,
+      );
+      const tx = MultisigTx.create(multisigPubkey, signDoc.msgs, fee, {
+        chainId: chainId,
+        accountNumber: 7,
+        sequence: 3,
+      });
+      await tx.sign(pens[0]);
+      await tx.sign(pens[2]);
+      const [signature] = tx.toStdTx().signatures;
+      expect(await verifySignDoc(signDoc, signature)).toEqual(true);
+      expect(await verifySignDoc({ ...signDoc, memo: "changed" }, signature)).toEqual(false);
+
+      const higherThreshold = { ...multisigPubkey, value: { ...multisigPubkey.value, threshold: "3" } };
+      expect(await verifySignDoc(signDoc, { ...signature, pub_key: higherThreshold })).toEqual(false);
+    });
+
+    it("returns false for malformed signatures", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const signature = await pen.sign(serializeSignDoc(signDoc));
+      expect(await verifySignDoc(signDoc, { ...signature, signature: toBase64(new Uint8Array(63)) })).toEqual(
+        false,
+      );
+
+      const multisigPubkey = createMultisigThresholdPubKey([encodeSecp256k1Pubkey(pen.pubkey)], 1);
+      const multisignature = { pub_key: multisigPubkey, signature: toBase64(new Uint8Array([0x0a, 0x05])) };
+      expect(await verifySignDoc(signDoc, multisignature)).toEqual(false);
+    });
+  });
+
+  describe("verifyStdTx", () => {
+    it("works", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const tx = await makeSignedTx(pen, 7, 3);
+      expect(await verifyStdTx(tx, chainId, 7, 3)).toEqual(true);
+    });
+
+    it("rejects wrong chain IDs, account numbers and sequences", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const tx = await makeSignedTx(pen, 7, 3);
+      expect(await verifyStdTx(tx, "secret-2", 7, 3)).toEqual(false);
+      expect(await verifyStdTx(tx, chainId, 8, 3)).toEqual(false);
+      expect(await verifyStdTx(tx, chainId, 7, 4)).toEqual(false);
+    });
+
+    it("rejects signatures by others than the sender", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const otherPen = await Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(1));
+      const tx = await makeSignedTx(pen, 7, 3);
+      const otherSignature = await otherPen.sign(makeSignBytes(tx.msg, fee, chainId, "", 7, 3));
+      expect(await verifyStdTx({ ...tx, signatures: [otherSignature] }, chainId, 7, 3)).toEqual(false);
+    });
+
+    it("rejects transactions with missing or additional signatures", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const tx = await makeSignedTx(pen, 7, 3);
+      expect(await verifyStdTx({ ...tx, signatures: [] }, chainId, 7, 3)).toEqual(false);
+      expect(
+        await verifyStdTx({ ...tx, signatures: [...tx.signatures, ...tx.signatures] }, chainId, 7, 3),
+      ).toEqual(false);
+    });
+
+    it("rejects malformed signatures and addresses", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const tx = await makeSignedTx(pen, 7, 3);
+      const [signature] = tx.signatures;
+      const shortSignature = { ...signature, signature: toBase64(new Uint8Array(63)) };
+      expect(await verifyStdTx({ ...tx, signatures: [shortSignature] }, chainId, 7, 3)).toEqual(false);
+      const shortPubkey = {
+        ...signature,
+        pub_key: { ...signature.pub_key, value: toBase64(new Uint8Array(32)) },
+      };
+      expect(await verifyStdTx({ ...tx, signatures: [shortPubkey] }, chainId, 7, 3)).toEqual(false);
+      const malformedSender = makeSend("secret1invalid");
+      expect(await verifyStdTx({ ...tx, msg: [malformedSender] }, chainId, 7, 3)).toEqual(false);
+    });
+
+    it("throws for unsupported messages", async () => {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic);
+      const tx = await makeSignedTx(pen, 7, 3);
+      const msg = { type: "cosmos-sdk/MsgDelegate", value: {} };
+      await verifyStdTx({ ...tx, msg: [msg] }, chainId, 7, 3).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/unsupported message type/),
+      );
+    });
+
+    it("works for multisig accounts", async () => {
+      const pens = await Promise.all(
+        [0, 1].map((a) => Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(a))),
+      );
+      const multisigPubkey = createMultisigThresholdPubKey(
+        pens.map((pen) => encodeSecp256k1Pubkey(pen.pubkey)),
+        1,
+      );
+      const msg = makeSend(pubkeyToAddress(multisigPubkey, "secret"));
+      const multisigTx = MultisigTx.create(multisigPubkey, [msg], fee, {
+        chainId: chainId,
+        accountNumber: 7,
+        sequence: 3,
+      });
+      await multisigTx.sign(pens[1]);
+      expect(await verifyStdTx(multisigTx.toStdTx(), chainId, 7, 3)).toEqual(true);
+      expect(await verifyStdTx(multisigTx.toStdTx(), chainId, 7, 4)).toEqual(false);
+    });
+  });
+});
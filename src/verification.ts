@@ -0,0 +1,129 @@
+import { Bech32, Encoding } from "@iov/encoding";
+
+import { pubkeyToAddress } from "./address";
+import { serializeSignDoc, StdSignDoc } from "./encoding";
+import { decodeMultisignature } from "./multisig";
+import { verifySignature } from "./signature";
+import {
+  isMsgExecuteContract,
+  isMsgInstantiateContract,
+  isMsgSend,
+  isMsgSignData,
+  isMsgStoreCode,
+  isMultisigThresholdPubKey,
+  Msg,
+  StdSignature,
+  StdTx,
+} from "./types";
+
+function getMsgSigners(msg: Msg): readonly string[] {
+  if (isMsgSend(msg)) return [msg.value.from_address];
+  if (isMsgStoreCode(msg) || isMsgInstantiateContract(msg) || isMsgExecuteContract(msg)) {
+    return [msg.value.sender];
+  }
+  if (isMsgSignData(msg)) return [msg.value.signer];
+  throw new Error(`Cannot get the signers of unsupported message type ${msg.type}`);
+}
+
+/**
+ * Returns the addresses that must sign a transaction with the given messages.
+ *
+ * Like StdTx.GetSigners in the Cosmos SDK, these are the signers of the messages without
+ * duplicates in the order they first appear. The i-th signature must be by the i-th signer.
+ */
+export function getSigners(msgs: readonly Msg[]): readonly string[] {
+  const signers = new Array<string>();
+  for (const msg of msgs) {
+    for (const signer of getMsgSigners(msg)) {
+      if (!signers.includes(signer)) signers.push(signer);
+    }
+  }
+  return signers;
+}
+
+/**
+ * Checks a signature over the sign bytes of a sign doc.
+ *
+ * Signatures of multisig accounts are valid if they contain at least threshold signatures
+ * and all of them are valid.
+ *
+ * @returns false for invalid and malformed signatures and for pubkey types that cannot be verified
+ */
+export async function verifySignDoc(signDoc: StdSignDoc, signature: StdSignature): Promise<boolean> {
+  try {
+    return await checkSignDoc(signDoc, signature);
+  } catch (error) {
+    return false;
+  }
+}
+
+/** Like verifySignDoc, but throws for malformed signatures and unsupported pubkey types */
+async function checkSignDoc(signDoc: StdSignDoc, signature: StdSignature): Promise<boolean> {
+  const signBytes = serializeSignDoc(signDoc);
+  const pubkey = signature.pub_key;
+  if (!isMultisigThresholdPubKey(pubkey)) return verifySignature(signature, signBytes);
+
+  const memberSignatures = decodeMultisignature(pubkey, Encoding.fromBase64(signature.signature));
+  const signatureCount = memberSignatures.filter((memberSignature) => !!memberSignature).length;
+  if (signatureCount < parseInt(pubkey.value.threshold, 10)) return false;
+  for (const [index, memberSignature] of memberSignatures.entries()) {
+    if (!memberSignature) continue;
+    const valid = await verifySignature(
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      { pub_key: pubkey.value.pubkeys[index], signature: Encoding.toBase64(memberSignature) },
+      signBytes,
+    );
+    if (!valid) return false;
+  }
+  return true;
+}
+
+/** True if the pubkey of the signature belongs to the address. False if either is malformed. */
+export function isSignedBy(signature: StdSignature, address: string): boolean {
+  try {
+    return pubkeyToAddress(signature.pub_key, Bech32.decode(address).prefix) === address;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Checks that a transaction is signed by the senders of its messages, e.g. to vet a transaction
+ * before relaying it. This does not check that the accounts can pay the fees.
+ *
+ * All signatures are checked against the same account number and sequence, so this only
+ * supports transactions with a single signer, which covers all transactions created by this library.
+ *
+ * @param chainId The chain ID for which this transaction was signed
+ * @param accountNumber The account number of the signer
+ * @param sequence The sequence the transaction must be signed with, i.e. the current sequence of the signer
+ *
+ * @returns true if there is a valid signature of each signer and false otherwise, including for
+ * malformed signatures and signer addresses
+ * @throws if the transaction contains messages of a type whose signers are unknown
+ */
+export async function verifyStdTx(
+  tx: StdTx,
+  chainId: string,
+  accountNumber: number,
+  sequence: number,
+): Promise<boolean> {
+  const signers = getSigners(tx.msg);
+  if (signers.length === 0 || tx.signatures.length !== signers.length) return false;
+
+  const signDoc: StdSignDoc = {
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    chain_id: chainId,
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    account_number: accountNumber.toString(),
+    sequence: sequence.toString(),
+    fee: tx.fee,
+    msgs: tx.msg,
+    memo: tx.memo || "",
+  };
+  for (const [index, signature] of tx.signatures.entries()) {
+    if (!isSignedBy(signature, signers[index])) return false;
+    if (!(await verifySignDoc(signDoc, signature))) return false;
+  }
+  return true;
+}
@@ -0,0 +1,22 @@
+import { makeRandomAddress } from "./testutils.spec";
+import { MemoryViewingKeyStore } from "./viewingkeystore";
+
+describe("MemoryViewingKeyStore", () => {
+  it("stores viewing keys by address and contract", async () => {
+    const store = new MemoryViewingKeyStore();
+    const address = makeRandomAddress();
+    const contract1 = makeRandomAddress();
+    const contract2 = makeRandomAddress();
+
+    expect(await store.get(address, contract1)).toBeUndefined();
+    await store.set(address, contract1, "api_key_1");
+    await store.set(address, contract2, "api_key_2");
+    expect(await store.get(address, contract1)).toEqual("api_key_1");
+    expect(await store.get(address, contract2)).toEqual("api_key_2");
+    expect(await store.get(contract1, address)).toBeUndefined();
+
+    await store.delete(address, contract1);
+    expect(await store.get(address, contract1)).toBeUndefined();
+    expect(await store.get(address, contract2)).toEqual("api_key_2");
+  });
+});
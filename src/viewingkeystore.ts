@@ -0,0 +1,26 @@
+/** Stores the viewing keys of addresses for SNIP-20 style contracts */
+export interface ViewingKeyStore {
+  readonly get: (address: string, contractAddress: string) => Promise<string | undefined>;
+  readonly set: (address: string, contractAddress: string, viewingKey: string) => Promise<void>;
+  readonly delete: (address: string, contractAddress: string) => Promise<void>;
+}
+
+export function makeStoreKey(address: string, contractAddress: string): string {
+  return `${address}/${contractAddress}`;
+}
+
+export class MemoryViewingKeyStore implements ViewingKeyStore {
+  private readonly viewingKeys = new Map<string, string>();
+
+  public async get(address: string, contractAddress: string): Promise<string | undefined> {
+    return this.viewingKeys.get(makeStoreKey(address, contractAddress));
+  }
+
+  public async set(address: string, contractAddress: string, viewingKey: string): Promise<void> {
+    this.viewingKeys.set(makeStoreKey(address, contractAddress), viewingKey);
+  }
+
+  public async delete(address: string, contractAddress: string): Promise<void> {
+    this.viewingKeys.delete(makeStoreKey(address, contractAddress));
+  }
+}
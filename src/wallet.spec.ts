@@ -0,0 +1,87 @@
+/* eslint-disable @typescript-eslint/camelcase */
+import { Secp256k1, Secp256k1Signature, Sha256 } from "@iov/crypto";
+import { Bech32 } from "@iov/encoding";
+
+import { rawSecp256k1PubkeyToAddress } from "./address";
+import { serializeSignDoc, StdSignDoc } from "./encoding";
+import { makeSecretNetworkPath, Secp256k1Pen } from "./pen";
+import { decodeSignature } from "./signature";
+import { faucet, makeRandomAddress } from "./testutils.spec";
+import { Secp256k1Wallet } from "./wallet";
+
+describe("Secp256k1Wallet", () => {
+  const mnemonic = "special sign fit simple patrol salute grocery chicken wheat radar tonight ceiling";
+  const signDoc: StdSignDoc = {
+    chain_id: "secret-1",
+    account_number: "7",
+    sequence: "3",
+    fee: { amount: [{ amount: "5000", denom: "uscrt" }], gas: "200000" },
+    msgs: [
+      {
+        type: "cosmos-sdk/MsgSend",
+        value: {
+          from_address: faucet.address,
+          to_address: makeRandomAddress(),
+          amount: [{ amount: "1234", denom: "uscrt" }],
+        },
+      },
+    ],
+    memo: "",
+  };
+
+  describe("getAccounts", () => {
+    it("derives the accounts of the Secret Network path", async () => {
+      const wallet = await Secp256k1Wallet.fromMnemonic(mnemonic, 3, "cosmos");
+      const accounts = await wallet.getAccounts();
+      expect(accounts.length).toEqual(3);
+      for (let a = 0; a < 3; a++) {
+        const pen = await Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(a));
+        expect(accounts[a]).toEqual({
+          address: rawSecp256k1PubkeyToAddress(pen.pubkey, "cosmos"),
+          algo: "secp256k1",
+          pubkey: pen.pubkey,
+        });
+      }
+    });
+
+    it("uses the secret prefix by default", async () => {
+      const wallet = await Secp256k1Wallet.fromMnemonic(mnemonic);
+      const accounts = await wallet.getAccounts();
+      expect(accounts.length).toEqual(1);
+      expect(Bech32.decode(accounts[0].address).prefix).toEqual("secret");
+    });
+
+    it("requires at least one account", async () => {
+      await Secp256k1Wallet.fromMnemonic(mnemonic, 0).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/at least one account/),
+      );
+    });
+  });
+
+  describe("sign", () => {
+    it("signs the sign doc with the key of the address", async () => {
+      const wallet = await Secp256k1Wallet.fromMnemonic(mnemonic, 2);
+      const [, account] = await wallet.getAccounts();
+
+      const { signed, signature } = await wallet.sign(account.address, signDoc);
+      expect(signed).toEqual(signDoc);
+      const { pubkey, signature: signatureBytes } = decodeSignature(signature);
+      expect(pubkey).toEqual(account.pubkey);
+      const valid = await Secp256k1.verifySignature(
+        Secp256k1Signature.fromFixedLength(signatureBytes),
+        new Sha256(serializeSignDoc(signDoc)).digest(),
+        pubkey,
+      );
+      expect(valid).toEqual(true);
+    });
+
+    it("rejects unknown addresses", async () => {
+      const wallet = await Secp256k1Wallet.fromMnemonic(mnemonic, 2, "cosmos");
+      await wallet.sign(makeRandomAddress(), signDoc).then(
+        () => fail("must not resolve"),
+        (error) => expect(error).toMatch(/not found in wallet/),
+      );
+    });
+  });
+});
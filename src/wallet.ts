@@ -1,5 +1,7 @@
+import { rawSecp256k1PubkeyToAddress } from "./address";
+import { serializeSignDoc, StdSignDoc } from "./encoding";
+import { makeSecretNetworkPath, Pen, Secp256k1Pen } from "./pen";
 import { StdSignature } from "./types";
-import { StdSignDoc } from "./encoding";
 
 export type PrehashType = "sha256" | "sha512" | null;
 
@@ -32,3 +34,56 @@ export interface OfflineSigner {
    */
   readonly sign: (signerAddress: string, signDoc: StdSignDoc) => Promise<SignResponse>;
 }
+
+export function isOfflineSigner(signer: Pen | OfflineSigner): signer is OfflineSigner {
+  return "getAccounts" in signer;
+}
+
+/**
+ * An HD wallet that holds the first accounts of a mnemonic, derived using the Secret Network
+ * derivation path `m/44'/529'/0'/0/a`.
+ *
+ * This is meant for scripts and tests. Like Secp256k1Pen, it keeps the private keys in memory.
+ */
+export class Secp256k1Wallet implements OfflineSigner {
+  /**
+   * @param numberOfAccounts The number of accounts to derive, starting at account index 0
+   * @param prefix The bech32 prefix of the addresses
+   */
+  public static async fromMnemonic(
+    mnemonic: string,
+    numberOfAccounts = 1,
+    prefix = "secret",
+  ): Promise<Secp256k1Wallet> {
+    if (numberOfAccounts < 1) throw new Error("A wallet must have at least one account");
+    const accounts: { readonly address: string; readonly pen: Secp256k1Pen }[] = [];
+    for (let a = 0; a < numberOfAccounts; a++) {
+      const pen = await Secp256k1Pen.fromMnemonic(mnemonic, makeSecretNetworkPath(a));
+      accounts.push({ address: rawSecp256k1PubkeyToAddress(pen.pubkey, prefix), pen: pen });
+    }
+    return new Secp256k1Wallet(accounts);
+  }
+
+  private readonly accounts: readonly { readonly address: string; readonly pen: Secp256k1Pen }[];
+
+  private constructor(accounts: readonly { readonly address: string; readonly pen: Secp256k1Pen }[]) {
+    this.accounts = accounts;
+  }
+
+  public async getAccounts(): Promise<readonly AccountData[]> {
+    return this.accounts.map(({ address, pen }) => ({
+      address: address,
+      algo: "secp256k1",
+      pubkey: pen.pubkey,
+    }));
+  }
+
+  public async sign(signerAddress: string, signDoc: StdSignDoc): Promise<SignResponse> {
+    const account = this.accounts.find(({ address }) => address === signerAddress);
+    if (!account) throw new Error(`Address ${signerAddress} not found in wallet`);
+    return {
+      signed: signDoc,
+      signature: await account.pen.sign(serializeSignDoc(signDoc)),
+    };
+  }
+}